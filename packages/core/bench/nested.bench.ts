@@ -0,0 +1,104 @@
+import { autorun, makeObservable, observable, runInAction } from "mobx";
+import { bench, describe } from "vitest";
+import { nested, StandardNestedFetcher, Validator, Watcher, watch } from "../src";
+
+/**
+ * Benchmarks of single-item edits on large nested collections
+ *
+ * The cost of an edit to the aggregated states or a replacement of an item
+ * should stay nearly flat as the number of items grows.
+ * Run with `pnpm bench` and compare the results of each size.
+ */
+
+const sizes = [500, 5000];
+
+class LineItem {
+  @watch @observable quantity = 0;
+
+  constructor() {
+    makeObservable(this);
+  }
+}
+
+class Order {
+  @nested @observable items: LineItem[] = [];
+
+  constructor(size: number) {
+    makeObservable(this);
+    for (let i = 0; i < size; i++) {
+      this.items.push(new LineItem());
+    }
+  }
+}
+
+/** Observe the value so that the computed values stay cached between iterations */
+function observe(fn: () => unknown) {
+  return autorun(() => {
+    fn();
+  });
+}
+
+describe("Watcher#changedKeyPaths", () => {
+  for (const size of sizes) {
+    const order = new Order(size);
+    const watcher = Watcher.get(order);
+    observe(() => watcher.changedKeyPaths);
+    const itemWatchers = order.items.map((item) => Watcher.get(item));
+    let i = 0;
+
+    bench(`edit a single item of ${size}`, () => {
+      const item = order.items[i % size];
+      runInAction(() => {
+        item.quantity++;
+      });
+      itemWatchers[i++ % size].reset();
+    });
+  }
+
+  for (const size of sizes) {
+    const order = new Order(size);
+    const watcher = Watcher.get(order);
+    observe(() => watcher.changedKeyPaths);
+    let i = 0;
+
+    bench(`replace a single item of ${size}`, () => {
+      runInAction(() => {
+        order.items[i++ % size] = new LineItem();
+      });
+    });
+  }
+});
+
+describe("Validator#invalidKeyPaths", () => {
+  for (const size of sizes) {
+    const order = new Order(size);
+    const validator = Validator.get(order);
+    observe(() => validator.invalidKeyPaths);
+    const itemValidators = order.items.map((item) => Validator.get(item));
+    const key = Symbol();
+    let i = 0;
+
+    bench(`invalidate a single item of ${size}`, () => {
+      const itemValidator = itemValidators[i++ % size];
+      itemValidator.updateErrors(key, (builder) => {
+        builder.invalidate("quantity", "invalid");
+      });
+      itemValidator.reset();
+    });
+  }
+});
+
+describe("StandardNestedFetcher#dataMap", () => {
+  for (const size of sizes) {
+    const order = new Order(size);
+    const fetcher = new StandardNestedFetcher(order, (entry) => entry.data);
+    observe(() => fetcher.dataMap);
+    let i = 0;
+
+    bench(`replace a single item of ${size}`, () => {
+      runInAction(() => {
+        order.items[i++ % size] = new LineItem();
+      });
+    });
+  }
+});
@@ -0,0 +1,155 @@
+import { makeObservable, observable, runInAction } from "mobx";
+import { createAnnotation } from "./annotation";
+import { makeSentinel } from "./sentinel";
+import { Watcher, watch } from "./watcher";
+
+const sensitive = createAnnotation("sensitive");
+const label = createAnnotation("label", (text: string) => text);
+const serverField = createAnnotation("serverField", (name: string, opt?: { readOnly?: boolean }) => ({
+  name,
+  readOnly: opt?.readOnly ?? false,
+}));
+
+describe("createAnnotation", () => {
+  describe("annotations without arguments", () => {
+    class Sample {
+      @sensitive password = "";
+      @sensitive
+      get token() {
+        return "";
+      }
+      email = "";
+    }
+
+    it("registers the annotated properties", () => {
+      const sample = new Sample();
+      expect(sensitive.getAll(sample)).toEqual(
+        new Map([
+          ["password", [true]],
+          ["token", [true]],
+        ])
+      );
+      expect(sensitive.get(sample, "password")).toEqual([true]);
+      expect(sensitive.get(sample, "email")).toEqual([]);
+    });
+
+    it("returns empty results for objects without annotations", () => {
+      expect(sensitive.getAll({})).toEqual(new Map());
+      expect(sensitive.get({}, "password")).toEqual([]);
+    });
+
+    it("is frozen", () => {
+      expect(Object.isFrozen(sensitive)).toBe(true);
+      expect(Object.isFrozen(sensitive.get(new Sample(), "password"))).toBe(true);
+    });
+  });
+
+  describe("annotations with arguments", () => {
+    class Sample {
+      @label("Email") @serverField("email_address") email = "";
+      @label("ID") @serverField("id", { readOnly: true }) id = "";
+    }
+
+    it("registers the data of the arguments", () => {
+      const sample = new Sample();
+      expect(label.getAll(sample)).toEqual(
+        new Map([
+          ["email", ["Email"]],
+          ["id", ["ID"]],
+        ])
+      );
+      expect(serverField.get(sample, "email")).toEqual([{ name: "email_address", readOnly: false }]);
+      expect(serverField.get(sample, "id")).toEqual([{ name: "id", readOnly: true }]);
+    });
+
+    it("infers the types of the arguments and the data", () => {
+      expectTypeOf(label).parameters.toEqualTypeOf<[text: string]>();
+      expectTypeOf(label.get).returns.toEqualTypeOf<readonly string[]>();
+      expectTypeOf(serverField.getAll).returns.toEqualTypeOf<
+        ReadonlyMap<string | symbol, readonly { name: string; readOnly: boolean }[]>
+      >();
+      expectTypeOf(sensitive.get).returns.toEqualTypeOf<readonly true[]>();
+
+      class Invalid {
+        // @ts-expect-error - invalid argument
+        @label(1) field = "";
+      }
+      void Invalid;
+    });
+  });
+
+  describe("annotations are independent of each other", () => {
+    const other = createAnnotation("label", (text: string) => text);
+
+    class Sample {
+      @label("Label") field1 = "";
+      @other("Other") field2 = "";
+    }
+
+    it("reads only its own annotations", () => {
+      const sample = new Sample();
+      expect(label.getAll(sample)).toEqual(new Map([["field1", ["Label"]]]));
+      expect(other.getAll(sample)).toEqual(new Map([["field2", ["Other"]]]));
+    });
+  });
+
+  describe("inheritance", () => {
+    class Parent {
+      @label("Parent 1") field1 = "";
+      @label("Parent 2") field2 = "";
+    }
+
+    class Child extends Parent {
+      @label("Child 2") override field2 = "";
+      @label("Child 3") field3 = "";
+    }
+
+    it("inherits the annotations of the parent class", () => {
+      expect(label.getAll(new Child())).toEqual(
+        new Map([
+          ["field1", ["Parent 1"]],
+          ["field2", ["Parent 2", "Child 2"]],
+          ["field3", ["Child 3"]],
+        ])
+      );
+    });
+
+    it("does not affect the parent class", () => {
+      expect(label.getAll(new Parent())).toEqual(
+        new Map([
+          ["field1", ["Parent 1"]],
+          ["field2", ["Parent 2"]],
+        ])
+      );
+    });
+  });
+
+  describe("with makeSentinel", () => {
+    it("annotates objects without decorators", () => {
+      const target = { email: "", password: "" };
+      makeSentinel(target, { email: label("Email"), password: sensitive });
+      expect(label.getAll(target)).toEqual(new Map([["email", ["Email"]]]));
+      expect(sensitive.getAll(target)).toEqual(new Map([["password", [true]]]));
+    });
+  });
+
+  describe("with built-in annotations", () => {
+    class Sample {
+      @label("Field") @watch.ref @observable field = new Set<string>();
+
+      constructor() {
+        makeObservable(this);
+      }
+    }
+
+    it("does not interfere with the built-in annotations", () => {
+      const sample = new Sample();
+      const watcher = Watcher.get(sample);
+      runInAction(() => {
+        sample.field.add("a");
+      });
+      expect(watcher.changed).toBe(false);
+      expect(label.get(sample, "field")).toEqual(["Field"]);
+    });
+  });
+});
@@ -0,0 +1,111 @@
+import { createPropertyLikeAnnotation, getAnnotationProcessor, PropertyLikeAnnotation } from "./annotationProcessor";
+
+/**
+ * Create a custom annotation
+ *
+ * The annotation works the same way as the built-in ones:
+ * - Supports both stage2 and stage3 decorators, and `makeSentinel()`
+ * - Annotations of parent classes are inherited, and child classes can annotate the same keys again
+ *
+ * @example
+ * ```typescript
+ * const sensitive = createAnnotation("sensitive");
+ *
+ * class User {
+ *   @sensitive password = "";
+ * }
+ *
+ * sensitive.getAll(user); // Map { "password" => [true] }
+ * ```
+ *
+ * @param name The name of the annotation, used for debugging
+ */
+export function createAnnotation(name: string): createAnnotation.Annotation<true>;
+
+/**
+ * Create a custom annotation with data
+ *
+ * The annotation works the same way as the built-in ones:
+ * - Supports both stage2 and stage3 decorators, and `makeSentinel()`
+ * - Annotations of parent classes are inherited, and child classes can annotate the same keys again
+ *
+ * @example
+ * ```typescript
+ * const label = createAnnotation("label", (text: string) => text);
+ *
+ * class User {
+ *   @label("Email") email = "";
+ * }
+ *
+ * label.get(user, "email"); // ["Email"]
+ * ```
+ *
+ * @param name The name of the annotation, used for debugging
+ * @param getData A function that returns the data of the annotation from its arguments
+ */
+export function createAnnotation<Args extends unknown[], Data>(
+  name: string,
+  getData: (...args: Args) => Data
+): createAnnotation.AnnotationFactory<Args, Data>;
+
+export function createAnnotation(name: string, getData?: (...args: unknown[]) => unknown) {
+  const annotationKey = Symbol(name);
+  const reader: createAnnotation.Reader<unknown> = {
+    getAll(target) {
+      const result = new Map<string | symbol, readonly unknown[]>();
+      const annotations = getAnnotationProcessor(target)?.getPropertyLike(annotationKey);
+      for (const [propertyKey, metadata] of annotations ?? []) {
+        result.set(propertyKey, Object.freeze([...metadata.data]));
+      }
+      return result;
+    },
+    get(target, propertyKey) {
+      const metadata = getAnnotationProcessor(target)?.getPropertyLike(annotationKey)?.get(propertyKey);
+      return Object.freeze(metadata ? [...metadata.data] : []);
+    },
+  };
+
+  if (!getData) {
+    return Object.freeze(
+      Object.assign(
+        createPropertyLikeAnnotation(annotationKey, () => true),
+        reader
+      )
+    );
+  }
+  return Object.freeze(
+    Object.assign((...args: unknown[]) => {
+      const data = getData(...args);
+      return createPropertyLikeAnnotation(annotationKey, () => data);
+    }, reader)
+  );
+}
+
+export namespace createAnnotation {
+  /** Functions to read the metadata of an annotation */
+  export interface Reader<Data> {
+    /**
+     * Get the data of all annotated properties of the target object
+     *
+     * @remarks
+     * - Includes the annotations of parent classes, followed by the ones of child classes
+     * - With stage3 decorators, the annotations are available after the instance is initialized
+     *
+     * @returns Map of property keys to the data of their annotations, in the order of registration
+     */
+    getAll(target: object): ReadonlyMap<string | symbol, readonly Data[]>;
+    /**
+     * Get the data of the annotations of a property of the target object
+     *
+     * @returns The data of the annotations, or an empty array if not annotated
+     */
+    get(target: object, propertyKey: string | symbol): readonly Data[];
+  }
+
+  /** Annotation without arguments (e.g., `@sensitive`) */
+  export type Annotation<Data> = PropertyLikeAnnotation & Reader<Data>;
+
+  /** Factory of annotations with arguments (e.g., `@label("Email")`) */
+  export type AnnotationFactory<Args extends unknown[], Data> = ((...args: Args) => PropertyLikeAnnotation) &
+    Reader<Data>;
+}
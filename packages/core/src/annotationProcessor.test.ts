@@ -1,4 +1,10 @@
-import { AnnotationProcessor, createPropertyLikeAnnotation, getAnnotationProcessor } from "./annotationProcessor";
+import {
+  AnnotationProcessor,
+  applyPropertyLikeAnnotation,
+  createPropertyLikeAnnotation,
+  getAnnotationProcessor,
+  markPropertyLikeAnnotation,
+} from "./annotationProcessor";
 
 const sampleKey = Symbol("sample");
 
@@ -309,3 +315,52 @@ describe("createPropertyLikeAnnotation", () => {
     });
   });
 });
+
+describe("applyPropertyLikeAnnotation", () => {
+  const sample = createPropertyLikeAnnotation(sampleKey, (propertyKey) => `data of ${String(propertyKey)}`);
+
+  class Sample {
+    @sample
+    property1 = "value of property1";
+    property2 = "value of property2";
+  }
+
+  test("registers the annotation to the object without affecting the class", () => {
+    const obj = new Sample();
+    applyPropertyLikeAnnotation(obj, "property2", sample);
+    expect(extractStoredData(getAnnotationProcessor(obj)!)).toMatchInlineSnapshot(`
+      Map {
+        "property1" => [
+          "data of property1",
+        ],
+        "property2" => [
+          "data of property2",
+        ],
+      }
+    `);
+    expect(extractStoredData(getAnnotationProcessor(new Sample())!)).toMatchInlineSnapshot(`
+      Map {
+        "property1" => [
+          "data of property1",
+        ],
+      }
+    `);
+  });
+
+  test("throws an error for functions other than annotations", () => {
+    expect(() => {
+      applyPropertyLikeAnnotation(new Sample(), "property2", () => {});
+    }).toThrowErrorMatchingInlineSnapshot(
+      `[TypeError: annotation: Expected a property-like annotation for "property2"]`
+    );
+  });
+
+  test("accepts functions marked as annotations", () => {
+    const alias: typeof sample = markPropertyLikeAnnotation((...args: any[]) =>
+      (sample as (...args: any[]) => void)(...args)
+    );
+    const obj = new Sample();
+    applyPropertyLikeAnnotation(obj, "property2", alias);
+    expect(getAnnotationProcessor(obj)!.getPropertyLike(sampleKey)!.has("property2")).toBe(true);
+  });
+});
@@ -118,6 +118,53 @@ export function getAnnotationProcessor(target: object) {
   return getStored(target).processor;
 }
 
+/**
+ * Property-like annotation created by {@link createPropertyLikeAnnotation}
+ *
+ * Works as a stage2 or stage3 decorator, and can also be applied by {@link applyPropertyLikeAnnotation}.
+ */
+export type PropertyLikeAnnotation<T extends object = any> = Decorator202112.PropertyDecorator<T> &
+  Decorator202203.ClassGetterDecorator<T> &
+  Decorator202203.ClassAccessorDecorator<T> &
+  Decorator202203.ClassFieldDecorator<T>;
+
+const annotations = new WeakSet<object>();
+
+/**
+ * Mark a function as a property-like annotation
+ *
+ * Used for functions that delegate to an annotation, so that they can be applied by {@link applyPropertyLikeAnnotation}.
+ */
+export function markPropertyLikeAnnotation<F extends (...args: any[]) => any>(fn: F): F {
+  annotations.add(fn);
+  return fn;
+}
+
+/** Whether the value is a property-like annotation */
+export function isPropertyLikeAnnotation(value: unknown): value is PropertyLikeAnnotation {
+  return typeof value === "function" && annotations.has(value);
+}
+
+/**
+ * Apply a property-like annotation to an object without decorators
+ *
+ * The annotation is registered in the own annotation processor of the object,
+ * which inherits the annotations registered on its prototype chain.
+ *
+ * @throws TypeError if the annotation is not a property-like annotation
+ */
+export function applyPropertyLikeAnnotation(
+  target: object,
+  propertyKey: string | symbol,
+  annotation: PropertyLikeAnnotation
+) {
+  if (!isPropertyLikeAnnotation(annotation)) {
+    throw new TypeError(`annotation: Expected a property-like annotation for "${String(propertyKey)}"`);
+  }
+  // Same as a stage2 decorator applied to the object itself
+  annotation(target, propertyKey);
+}
+
 /**
  * Create a property-like annotation
  *
@@ -134,11 +181,8 @@ export function getAnnotationProcessor(target: object) {
 export function createPropertyLikeAnnotation<T extends object, Data>(
   annotationKey: symbol,
   getData: (propertyKey: string | symbol) => Data
-): Decorator202112.PropertyDecorator<T> &
-  Decorator202203.ClassGetterDecorator<T> &
-  Decorator202203.ClassAccessorDecorator<T> &
-  Decorator202203.ClassFieldDecorator<T> {
-  return (target, context) => {
+): PropertyLikeAnnotation<T> {
+  const annotation: PropertyLikeAnnotation<T> = (target, context) => {
     if (isDecorator202203(context)) {
       context.addInitializer(function () {
         const processor = createStored(this as T, false);
@@ -156,4 +200,5 @@ export function createPropertyLikeAnnotation<T extends object, Data>(
       });
     }
   };
+  return markPropertyLikeAnnotation(annotation);
 }
@@ -0,0 +1,113 @@
+import { diffDeep, rebaseDeep } from "./deepDiff";
+import { KeyPath } from "./keyPath";
+
+describe("diffDeep", () => {
+  it("returns an empty map for equal values", () => {
+    expect(diffDeep(KeyPath.Self, { a: [1, { b: 2 }] }, { a: [1, { b: 2 }] })).toEqual(new Map());
+  });
+
+  it("returns the key path itself when the values differ as a whole", () => {
+    expect(diffDeep(KeyPath.build("a"), 1, 2)).toEqual(new Map([["a", { oldValue: 1, newValue: 2 }]]));
+    expect(diffDeep(KeyPath.build("a"), { b: 1 }, null)).toEqual(
+      new Map([["a", { oldValue: { b: 1 }, newValue: null }]])
+    );
+  });
+
+  it("diffs plain objects per key", () => {
+    expect(diffDeep(KeyPath.build("a"), { b: { c: 1, d: 1 }, e: 1 }, { b: { c: 2, d: 1 }, f: 1 })).toEqual(
+      new Map([
+        ["a.b.c", { oldValue: 1, newValue: 2 }],
+        ["a.e", { oldValue: 1, newValue: undefined }],
+        ["a.f", { oldValue: undefined, newValue: 1 }],
+      ])
+    );
+  });
+
+  it("diffs arrays per index", () => {
+    expect(diffDeep(KeyPath.Self, [{ a: 1 }, 2], [{ a: 2 }, 3, 4])).toEqual(
+      new Map([
+        ["0.a", { oldValue: 1, newValue: 2 }],
+        ["1", { oldValue: 2, newValue: 3 }],
+        ["2", { oldValue: undefined, newValue: 4 }],
+      ])
+    );
+  });
+
+  it("lists removed array elements in descending order", () => {
+    expect(Array.from(diffDeep(KeyPath.Self, [1, 2, 3, 4], [1]).keys())).toEqual(["3", "2", "1"]);
+  });
+
+  it("diffs maps per key", () => {
+    expect(diffDeep(KeyPath.Self, new Map([["a", { b: 1 }]]), new Map([["a", { b: 2 }]]))).toEqual(
+      new Map([["a.b", { oldValue: 1, newValue: 2 }]])
+    );
+  });
+
+  it("escapes keys", () => {
+    expect(diffDeep(KeyPath.Self, { "a.b": 1 }, { "a.b": 2 })).toEqual(
+      new Map([["a\\.b", { oldValue: 1, newValue: 2 }]])
+    );
+  });
+
+  it("compares other values structurally", () => {
+    expect(diffDeep(KeyPath.Self, new Date(0), new Date(0))).toEqual(new Map());
+    expect(diffDeep(KeyPath.Self, new Set([1]), new Set([1]))).toEqual(new Map());
+    expect(diffDeep(KeyPath.Self, new Set([1]), new Set([2]))).toEqual(
+      new Map([[KeyPath.Self, { oldValue: new Set([1]), newValue: new Set([2]) }]])
+    );
+  });
+});
+
+describe("rebaseDeep", () => {
+  const baseline = { theme: { color: "red", size: 1 }, tags: ["a", "b", "c"] };
+  const current = { theme: { color: "blue", size: 2 }, tags: ["a"] };
+
+  it("takes the difference at the key path", () => {
+    expect(rebaseDeep(baseline, current, KeyPath.build("theme.color"), false)).toEqual({
+      theme: { color: "blue", size: 1 },
+      tags: ["a", "b", "c"],
+    });
+  });
+
+  it("does not take differences under the key path without prefix", () => {
+    expect(rebaseDeep(baseline, current, KeyPath.build("theme"), false)).toEqual(baseline);
+  });
+
+  it("takes differences under the key path with prefix", () => {
+    expect(rebaseDeep(baseline, current, KeyPath.build("theme"), true)).toEqual({
+      theme: { color: "blue", size: 2 },
+      tags: ["a", "b", "c"],
+    });
+    expect(rebaseDeep(baseline, current, KeyPath.build("tags"), true)).toEqual({
+      theme: { color: "red", size: 1 },
+      tags: ["a"],
+    });
+    expect(rebaseDeep(baseline, current, KeyPath.Self, true)).toEqual(current);
+  });
+
+  it("removes array elements", () => {
+    expect(rebaseDeep(baseline, current, KeyPath.build("tags.2"), false)).toEqual({
+      theme: { color: "red", size: 1 },
+      tags: ["a", "b"],
+    });
+  });
+
+  it("truncates arrays at a removed element without shifting the others", () => {
+    const result = rebaseDeep(baseline, current, KeyPath.build("tags.1"), false);
+    expect(result).toEqual({ theme: { color: "red", size: 1 }, tags: ["a"] });
+    expect(Array.from(diffDeep(KeyPath.Self, result, current).keys())).toEqual(["theme.color", "theme.size"]);
+  });
+
+  it("takes the difference at an escaped key path", () => {
+    expect(rebaseDeep({ "a.b": 1, c: 1 }, { "a.b": 2, c: 2 }, KeyPath.fromKeys(["a.b"]), false)).toEqual({
+      "a.b": 2,
+      c: 1,
+    });
+  });
+
+  it("does not modify the baseline", () => {
+    const copy = JSON.parse(JSON.stringify(baseline));
+    rebaseDeep(baseline, current, KeyPath.Self, true);
+    expect(baseline).toEqual(copy);
+  });
+});
@@ -0,0 +1,125 @@
+import { comparer } from "mobx";
+import { KeyPath } from "./keyPath";
+import { isRecord } from "./mobx-utils";
+
+/** Difference at a key path */
+export type DeepDiffEntry = {
+  /** The value before the change, or `undefined` if it did not exist */
+  readonly oldValue: unknown;
+  /** The value after the change, or `undefined` if it no longer exists */
+  readonly newValue: unknown;
+};
+
+/**
+ * Diff plain data and collect the key paths of the differing values
+ *
+ * @remarks
+ * - Plain objects and maps are compared per key, and arrays per index
+ * - Other values (including sets and dates) are compared structurally as a whole
+ * - Removed array elements come last in descending order of indices,
+ *   so that the entries can be applied in order without shifting indices
+ *
+ * @param keyPath - The key path of the values
+ *
+ * @returns The differences keyed by key paths
+ */
+export function diffDeep(keyPath: KeyPath, oldValue: unknown, newValue: unknown): Map<KeyPath, DeepDiffEntry> {
+  const result = new Map<KeyPath, DeepDiffEntry>();
+  collectDiff(result, keyPath, oldValue, newValue);
+  return result;
+}
+
+function collectDiff(result: Map<KeyPath, DeepDiffEntry>, keyPath: KeyPath, oldValue: unknown, newValue: unknown) {
+  if (Object.is(oldValue, newValue)) return;
+
+  if (Array.isArray(oldValue) && Array.isArray(newValue)) {
+    const commonLength = Math.min(oldValue.length, newValue.length);
+    for (let i = 0; i < commonLength; i++) {
+      collectDiff(result, KeyPath.build(keyPath, i), oldValue[i], newValue[i]);
+    }
+    for (let i = oldValue.length - 1; i >= commonLength; i--) {
+      result.set(KeyPath.build(keyPath, i), { oldValue: oldValue[i], newValue: undefined });
+    }
+    for (let i = commonLength; i < newValue.length; i++) {
+      result.set(KeyPath.build(keyPath, i), { oldValue: undefined, newValue: newValue[i] });
+    }
+    return;
+  }
+
+  if (oldValue instanceof Map && newValue instanceof Map) {
+    for (const key of new Set([...oldValue.keys(), ...newValue.keys()])) {
+      collectDiff(result, KeyPath.build(keyPath, KeyPath.encodeKey(key)), oldValue.get(key), newValue.get(key));
+    }
+    return;
+  }
+
+  if (isRecord(oldValue) && isRecord(newValue)) {
+    for (const key of new Set([...Object.keys(oldValue), ...Object.keys(newValue)])) {
+      collectDiff(result, KeyPath.build(keyPath, KeyPath.encodeKey(key)), oldValue[key], newValue[key]);
+    }
+    return;
+  }
+
+  if (!comparer.structural(oldValue, newValue)) {
+    result.set(keyPath, { oldValue, newValue });
+  }
+}
+
+/**
+ * Take the differences at a key path into the baseline
+ *
+ * @param keyPath - The key path relative to the values
+ * @param prefix - Whether to take the differences under the key path as well
+ *
+ * @remarks
+ * Taking a removal of an array element truncates the array at the element,
+ * so the removals of the following elements are taken as well.
+ *
+ * @returns A new baseline, leaving the given one untouched
+ */
+export function rebaseDeep(baseline: unknown, current: unknown, keyPath: KeyPath, prefix: boolean): unknown {
+  let result = baseline;
+  for (const [entryKeyPath, entry] of diffDeep(KeyPath.Self, baseline, current)) {
+    const isTarget = prefix ? KeyPath.isUnder(entryKeyPath, keyPath) : entryKeyPath === keyPath;
+    if (!isTarget) continue;
+    result = setIn(result, KeyPath.split(entryKeyPath), entry.newValue, entry.newValue === undefined);
+  }
+  return result;
+}
+
+/** Set or remove a value at the key path components, copying the containers on the way */
+function setIn(container: unknown, components: KeyPath.Component[], value: unknown, remove: boolean): unknown {
+  if (components.length === 0) return value;
+  const [component, ...rest] = components;
+
+  if (Array.isArray(container)) {
+    const index = Number(component);
+    const copy = container.slice();
+    if (rest.length === 0 && remove) {
+      copy.length = Math.min(copy.length, index); // Removed elements are always at the tail
+    } else {
+      copy[index] = setIn(copy[index], rest, value, remove);
+    }
+    return copy;
+  }
+
+  if (container instanceof Map) {
+    const mapKey = Array.from(container.keys()).find((k) => KeyPath.encodeKey(k) === component) ?? component;
+    const copy = new Map(container);
+    if (rest.length === 0 && remove) {
+      copy.delete(mapKey);
+    } else {
+      copy.set(mapKey, setIn(copy.get(mapKey), rest, value, remove));
+    }
+    return copy;
+  }
+
+  const key = KeyPath.decodeKey(component) as string;
+  const copy: Record<string, unknown> = { ...(container as Record<string, unknown>) };
+  if (rest.length === 0 && remove) {
+    delete copy[key];
+  } else {
+    copy[key] = setIn(copy[key], rest, value, remove);
+  }
+  return copy;
+}
@@ -0,0 +1,43 @@
+import { createDisposedWarning } from "./disposal";
+
+describe("createDisposedWarning", () => {
+  const warnIfDisposed = createDisposedWarning("Sample", "sample");
+
+  afterEach(() => {
+    vi.unstubAllEnvs();
+    vi.restoreAllMocks();
+  });
+
+  it("returns whether the instance has been disposed", () => {
+    vi.spyOn(console, "warn").mockImplementation(() => {});
+    expect(warnIfDisposed({ isDisposed: false }, "method")).toBe(false);
+    expect(warnIfDisposed({ isDisposed: true }, "method")).toBe(true);
+  });
+
+  it("warns once per instance", () => {
+    const warn = vi.spyOn(console, "warn").mockImplementation(() => {});
+    const instance1 = { isDisposed: true };
+    const instance2 = { isDisposed: true };
+
+    warnIfDisposed(instance1, "method1");
+    warnIfDisposed(instance1, "method2");
+    warnIfDisposed(instance2, "method2");
+    expect(warn.mock.calls).toEqual([
+      ["Sample#method1: The sample has been disposed"],
+      ["Sample#method2: The sample has been disposed"],
+    ]);
+  });
+
+  it("does not warn before disposal", () => {
+    const warn = vi.spyOn(console, "warn").mockImplementation(() => {});
+    warnIfDisposed({ isDisposed: false }, "method");
+    expect(warn).not.toHaveBeenCalled();
+  });
+
+  it("does not warn in production", () => {
+    vi.stubEnv("NODE_ENV", "production");
+    const warn = vi.spyOn(console, "warn").mockImplementation(() => {});
+    expect(warnIfDisposed({ isDisposed: true }, "method")).toBe(true);
+    expect(warn).not.toHaveBeenCalled();
+  });
+});
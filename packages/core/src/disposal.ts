@@ -0,0 +1,36 @@
+/** Instances that have already been warned of their use after disposal */
+const warnedInstances = new WeakSet<object>();
+
+/**
+ * Create a function that warns that an instance is used after disposal
+ *
+ * Methods call it first and return early if the instance has been disposed, without making any changes.
+ * The warning is logged once per instance and only in development.
+ *
+ * @example
+ * ```typescript
+ * const warnIfDisposed = createDisposedWarning("Watcher", "watcher");
+ *
+ * reset() {
+ *   if (warnIfDisposed(this, "reset")) return;
+ *   // ...
+ * }
+ * ```
+ *
+ * @param className - The name of the class prefixed to the methods in the warning
+ * @param name - The name of the instance in the warning
+ *
+ * @returns A function that returns whether the instance has been disposed
+ *
+ * @internal @ignore
+ */
+export function createDisposedWarning(className: string, name: string) {
+  return (instance: { readonly isDisposed: boolean }, method: string) => {
+    if (!instance.isDisposed) return false;
+    if (process.env.NODE_ENV !== "production" && !warnedInstances.has(instance)) {
+      warnedInstances.add(instance);
+      console.warn(`${className}#${method}: The ${name} has been disposed`);
+    }
+    return true;
+  };
+}
@@ -0,0 +1,131 @@
+import { diffElements } from "./elementDiff";
+import { KeyPath } from "./keyPath";
+
+describe("diffElements", () => {
+  const a = { id: "a" };
+  const b = { id: "b" };
+  const c = { id: "c" };
+  const d = { id: "d" };
+
+  it("returns null for non-collections", () => {
+    expect(diffElements(KeyPath.Self, 1, 2)).toBeNull();
+    expect(diffElements(KeyPath.Self, [1], new Set([1]))).toBeNull();
+  });
+
+  describe("array", () => {
+    it("returns an empty array for the same elements", () => {
+      expect(diffElements(KeyPath.Self, [a, b], [a, b])).toEqual([]);
+    });
+
+    it("detects added elements", () => {
+      expect(diffElements(KeyPath.build("list"), [a, b], [c, a, b, d])).toEqual([
+        { type: "added", keyPath: "list.0", value: c },
+        { type: "added", keyPath: "list.3", value: d },
+      ]);
+    });
+
+    it("detects removed elements", () => {
+      expect(diffElements(KeyPath.build("list"), [a, b, c], [b])).toEqual([
+        { type: "removed", keyPath: "list.0", value: a },
+        { type: "removed", keyPath: "list.2", value: c },
+      ]);
+    });
+
+    it("detects moved elements", () => {
+      expect(diffElements(KeyPath.build("list"), [a, b, c, d], [b, c, a, d])).toEqual([
+        { type: "moved", keyPath: "list.2", oldKeyPath: "list.0", value: a },
+      ]);
+    });
+
+    it("treats a replaced element as removed and added", () => {
+      expect(diffElements(KeyPath.build("list"), [a, b], [a, c])).toEqual([
+        { type: "removed", keyPath: "list.1", value: b },
+        { type: "added", keyPath: "list.1", value: c },
+      ]);
+    });
+
+    it("handles duplicated elements", () => {
+      expect(diffElements(KeyPath.build("list"), [1, 1, 2], [1, 1, 2, 1])).toEqual([
+        { type: "added", keyPath: "list.3", value: 1 },
+      ]);
+    });
+
+    it("matches the common leading and trailing elements at their positions", () => {
+      expect(diffElements(KeyPath.build("list"), [a, b, a], [c, b, a])).toEqual([
+        { type: "removed", keyPath: "list.0", value: a },
+        { type: "added", keyPath: "list.0", value: c },
+      ]);
+    });
+  });
+
+  describe("set", () => {
+    it("detects added and removed elements with the key path of the set", () => {
+      expect(diffElements(KeyPath.build("set"), new Set([a, b]), new Set([b, c]))).toEqual([
+        { type: "removed", keyPath: "set", value: a },
+        { type: "added", keyPath: "set", value: c },
+      ]);
+    });
+  });
+
+  describe("map", () => {
+    it("detects added, removed, and replaced values", () => {
+      expect(
+        diffElements(
+          KeyPath.build("map"),
+          new Map([
+            ["x", a],
+            ["y", b],
+          ]),
+          new Map([
+            ["y", c],
+            ["z", d],
+          ])
+        )
+      ).toEqual([
+        { type: "removed", keyPath: "map.x", value: a },
+        { type: "replaced", keyPath: "map.y", oldValue: b, newValue: c },
+        { type: "added", keyPath: "map.z", value: d },
+      ]);
+    });
+  });
+
+  describe("keyed", () => {
+    const keyOf = (element: { id: string }) => element.id;
+
+    it("keys elements of arrays by the function", () => {
+      expect(diffElements(KeyPath.build("list"), [a, b, c], [c, a, d], keyOf)).toEqual([
+        { type: "removed", keyPath: "list.b", value: b },
+        { type: "added", keyPath: "list.d", value: d },
+        { type: "moved", keyPath: "list.c", oldKeyPath: "list.c", value: c },
+      ]);
+    });
+
+    it("keys elements of sets by the function", () => {
+      expect(diffElements(KeyPath.build("set"), new Set([a, b]), new Set([b, c]), keyOf)).toEqual([
+        { type: "removed", keyPath: "set.a", value: a },
+        { type: "added", keyPath: "set.c", value: c },
+      ]);
+    });
+
+    it("keys values of maps by the function", () => {
+      expect(
+        diffElements(
+          KeyPath.build("map"),
+          new Map([
+            ["x", a],
+            ["y", b],
+          ]),
+          new Map([
+            ["x", { id: "a" }],
+            ["y", c],
+          ]),
+          keyOf
+        )
+      ).toEqual([
+        { type: "replaced", keyPath: "map.a", oldValue: a, newValue: { id: "a" } },
+        { type: "removed", keyPath: "map.b", value: b },
+        { type: "added", keyPath: "map.c", value: c },
+      ]);
+    });
+  });
+});
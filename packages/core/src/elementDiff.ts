@@ -0,0 +1,206 @@
+import { KeyPath } from "./keyPath";
+
+/**
+ * Change of an element in an array, a set, or a map
+ *
+ * - `added` - The element is added at `keyPath`
+ * - `removed` - The element is removed from `keyPath`
+ * - `replaced` - The value for the map key is replaced
+ * - `moved` - The element is moved from `oldKeyPath` to `keyPath`
+ *
+ * Elements of sets have no keys, so `keyPath` is the key path of the set itself unless the elements are keyed.
+ */
+export type ElementDiff =
+  | { readonly type: "added"; readonly keyPath: KeyPath; readonly value: unknown }
+  | { readonly type: "removed"; readonly keyPath: KeyPath; readonly value: unknown }
+  | { readonly type: "replaced"; readonly keyPath: KeyPath; readonly oldValue: unknown; readonly newValue: unknown }
+  | { readonly type: "moved"; readonly keyPath: KeyPath; readonly oldKeyPath: KeyPath; readonly value: unknown };
+
+/**
+ * Diff elements of arrays, sets, or maps by identity
+ *
+ * @param keyPath - The key path of the collection
+ * @param keyOf - A function to key the elements instead of their indices or map keys (see `@nested.keyed`)
+ *
+ * @returns The changes of the elements, or `null` if the values are not collections of the same type
+ */
+export function diffElements(
+  keyPath: KeyPath,
+  oldValue: unknown,
+  newValue: unknown,
+  keyOf: ((element: any) => KeyPath.Key) | null = null
+): ElementDiff[] | null {
+  if (Array.isArray(oldValue) && Array.isArray(newValue)) {
+    return diffArrayElements(keyPath, oldValue, newValue, keyOf);
+  }
+  if (oldValue instanceof Set && newValue instanceof Set) {
+    return diffSetElements(keyPath, oldValue, newValue, keyOf);
+  }
+  if (oldValue instanceof Map && newValue instanceof Map) {
+    return diffMapElements(keyPath, oldValue, newValue, keyOf);
+  }
+  return null;
+}
+
+/** Build the key path of an element keyed by the function, or `null` if not keyed */
+function buildKeyedKeyPath(keyPath: KeyPath, element: unknown, keyOf: ((element: any) => KeyPath.Key) | null) {
+  if (!keyOf || element === null || element === undefined) return null;
+  return KeyPath.build(keyPath, KeyPath.encodeKey(keyOf(element)));
+}
+
+/**
+ * Diff arrays by identity of elements
+ *
+ * Retained elements are matched in order, and only the ones out of the longest ordered run are considered moved,
+ * so inserting or removing an element does not make the following elements moved.
+ * Common leading and trailing elements are skipped, so a single edit does not match all elements.
+ */
+function diffArrayElements(
+  keyPath: KeyPath,
+  oldValue: unknown[],
+  newValue: unknown[],
+  keyOf: ((element: any) => KeyPath.Key) | null
+) {
+  const elementKeyPath = (element: unknown, i: number) =>
+    buildKeyedKeyPath(keyPath, element, keyOf) ?? KeyPath.build(keyPath, i);
+
+  let start = 0;
+  while (start < oldValue.length && start < newValue.length && oldValue[start] === newValue[start]) {
+    start++;
+  }
+  let oldEnd = oldValue.length;
+  let newEnd = newValue.length;
+  while (oldEnd > start && newEnd > start && oldValue[oldEnd - 1] === newValue[newEnd - 1]) {
+    oldEnd--;
+    newEnd--;
+  }
+
+  const oldIndices = new Map<unknown, number[]>();
+  for (let i = start; i < oldEnd; i++) {
+    let indices = oldIndices.get(oldValue[i]);
+    if (!indices) {
+      indices = [];
+      oldIndices.set(oldValue[i], indices);
+    }
+    indices.push(i);
+  }
+
+  const result: ElementDiff[] = [];
+  const added: ElementDiff[] = [];
+  const matches: [oldIndex: number, newIndex: number][] = [];
+  const matchedOldIndices = new Set<number>();
+  for (let j = start; j < newEnd; j++) {
+    const element = newValue[j];
+    const i = oldIndices.get(element)?.shift();
+    if (i === undefined) {
+      added.push({ type: "added", keyPath: elementKeyPath(element, j), value: element });
+    } else {
+      matches.push([i, j]);
+      matchedOldIndices.add(i);
+    }
+  }
+
+  for (let i = start; i < oldEnd; i++) {
+    if (matchedOldIndices.has(i)) continue;
+    result.push({ type: "removed", keyPath: elementKeyPath(oldValue[i], i), value: oldValue[i] });
+  }
+  result.push(...added);
+
+  const ordered = longestIncreasingRun(matches.map(([i]) => i));
+  matches.forEach(([i, j], k) => {
+    if (ordered.has(k)) return;
+    result.push({
+      type: "moved",
+      keyPath: elementKeyPath(newValue[j], j),
+      oldKeyPath: elementKeyPath(newValue[j], i),
+      value: newValue[j],
+    });
+  });
+  return result;
+}
+
+/** Diff sets by identity of elements */
+function diffSetElements(
+  keyPath: KeyPath,
+  oldValue: Set<unknown>,
+  newValue: Set<unknown>,
+  keyOf: ((element: any) => KeyPath.Key) | null
+) {
+  const result: ElementDiff[] = [];
+  for (const element of oldValue) {
+    if (newValue.has(element)) continue;
+    result.push({ type: "removed", keyPath: buildKeyedKeyPath(keyPath, element, keyOf) ?? keyPath, value: element });
+  }
+  for (const element of newValue) {
+    if (oldValue.has(element)) continue;
+    result.push({ type: "added", keyPath: buildKeyedKeyPath(keyPath, element, keyOf) ?? keyPath, value: element });
+  }
+  return result;
+}
+
+/**
+ * Diff maps by identity of values
+ *
+ * Replaced values keyed differently are treated as removed and added.
+ */
+function diffMapElements(
+  keyPath: KeyPath,
+  oldValue: Map<unknown, unknown>,
+  newValue: Map<unknown, unknown>,
+  keyOf: ((element: any) => KeyPath.Key) | null
+) {
+  const elementKeyPath = (key: unknown, element: unknown) =>
+    buildKeyedKeyPath(keyPath, element, keyOf) ?? KeyPath.build(keyPath, KeyPath.encodeKey(key as KeyPath.Key));
+
+  const result: ElementDiff[] = [];
+  const added: ElementDiff[] = [];
+  for (const [key, element] of oldValue) {
+    const oldKeyPath = elementKeyPath(key, element);
+    if (!newValue.has(key)) {
+      result.push({ type: "removed", keyPath: oldKeyPath, value: element });
+      continue;
+    }
+    const newElement = newValue.get(key);
+    if (Object.is(element, newElement)) continue;
+    const newKeyPath = elementKeyPath(key, newElement);
+    if (oldKeyPath === newKeyPath) {
+      result.push({ type: "replaced", keyPath: newKeyPath, oldValue: element, newValue: newElement });
+    } else {
+      result.push({ type: "removed", keyPath: oldKeyPath, value: element });
+      added.push({ type: "added", keyPath: newKeyPath, value: newElement });
+    }
+  }
+  result.push(...added);
+  for (const [key, element] of newValue) {
+    if (oldValue.has(key)) continue;
+    result.push({ type: "added", keyPath: elementKeyPath(key, element), value: element });
+  }
+  return result;
+}
+
+/**
+ * Find the longest strictly increasing subsequence
+ *
+ * @returns The positions of the subsequence in the values
+ */
+function longestIncreasingRun(values: number[]) {
+  const tails: number[] = []; // Positions of the smallest tail of each length
+  const prev = new Array<number>(values.length);
+  values.forEach((value, k) => {
+    let lo = 0;
+    let hi = tails.length;
+    while (lo < hi) {
+      const mid = (lo + hi) >> 1;
+      if (values[tails[mid]] < value) lo = mid + 1;
+      else hi = mid;
+    }
+    prev[k] = lo > 0 ? tails[lo - 1] : -1;
+    tails[lo] = k;
+  });
+
+  const result = new Set<number>();
+  for (let k = tails.length > 0 ? tails[tails.length - 1] : -1; k >= 0; k = prev[k]) {
+    result.add(k);
+  }
+  return result;
+}
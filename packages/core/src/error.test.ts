@@ -80,6 +80,23 @@ describe("ValidationErrorMapBuilder", () => {
     });
   });
 
+  describe("#invalidateKeyPath", () => {
+    it("adds an error for the given key path", () => {
+      type Target = { theme: { color: string }; tags: string[] };
+      const builder = new ValidationErrorMapBuilder<Target>();
+      builder.invalidateKeyPath(KeyPath.of<Target>()("theme", "color"), "reasonA");
+      builder.invalidateKeyPath(KeyPath.of<Target>()("tags", 0), "reasonB");
+
+      const result = ValidationErrorMapBuilder.build(builder);
+      expect(result.get(KeyPath.build("theme.color"))).toEqual(
+        new Set([new ValidationError({ keyPath: KeyPath.build("theme.color"), reason: "reasonA" })])
+      );
+      expect(result.get(KeyPath.build("tags.0"))).toEqual(
+        new Set([new ValidationError({ keyPath: KeyPath.build("tags.0"), reason: "reasonB" })])
+      );
+    });
+  });
+
   describe("#invalidateSelf", () => {
     it("adds an error for the target object itself", () => {
       const builder = new ValidationErrorMapBuilder<{ key1: number; key2: number }>();
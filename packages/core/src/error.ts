@@ -40,13 +40,33 @@ export class ValidationErrorMapBuilder<T> {
    * Add an error for a key
    *
    * @remarks
-   * Multiple reasons can be added for the same key.
+   * - Multiple reasons can be added for the same key.
+   * - Symbol and number keys are encoded with {@link KeyPath.encodeKey}.
    *
    * @param key Key to invalidate
    * @param reason Error message or Error object
    */
-  invalidate(key: keyof T & string, reason: string | Error) {
-    const keyPath = KeyPath.build(key);
+  invalidate(key: keyof T, reason: string | Error) {
+    const keyPath = KeyPath.encodeKey(key);
+    const error = new ValidationError({ keyPath, reason });
+    this.#map.set(keyPath, error);
+  }
+
+  /**
+   * Add an error for a key path
+   *
+   * @example
+   * ```typescript
+   * builder.invalidateKeyPath(KeyPath.of<Order>()("items", 0, "name"), "Invalid");
+   * ```
+   *
+   * @remarks
+   * Use {@link KeyPath.of} to build key paths checked against the type of the target.
+   *
+   * @param keyPath Key path to invalidate
+   * @param reason Error message or Error object
+   */
+  invalidateKeyPath(keyPath: KeyPath, reason: string | Error) {
     const error = new ValidationError({ keyPath, reason });
     this.#map.set(keyPath, error);
   }
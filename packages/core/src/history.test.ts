@@ -0,0 +1,324 @@
+import { computed, makeObservable, observable, runInAction } from "mobx";
+import { History, debugHistory } from "./history";
+import { Watcher, unwatch, watch } from "./watcher";
+import { nested } from "./nested";
+
+class Sample {
+  @observable name = "a";
+  @observable tags = ["x"];
+  @watch box = observable.box(0);
+  @nested @observable other = new Other();
+  @nested @observable items = [new Other()];
+
+  constructor() {
+    makeObservable(this);
+  }
+
+  @computed
+  get upperName() {
+    return this.name.toUpperCase();
+  }
+}
+
+class Other {
+  @observable value = 0;
+
+  constructor() {
+    makeObservable(this);
+  }
+}
+
+describe("History", () => {
+  describe("constructor", () => {
+    it("throws an error when attempted to be instantiated directly", () => {
+      expect(() => {
+        new (History as any)();
+      }).toThrowError(/private constructor/);
+    });
+  });
+
+  describe(".get", () => {
+    it("throws an error when a non-object is given", () => {
+      expect(() => {
+        History.get(null as any);
+      }).toThrowError(/Expected an object/);
+    });
+
+    it("returns the same instance for the same target", () => {
+      const target = {};
+      expect(History.get(target)).toBe(History.get(target));
+    });
+
+    it("uses the watcher of the target", () => {
+      const target = {};
+      expect(History.get(target).watcher).toBe(Watcher.get(target));
+    });
+  });
+
+  describe(".getSafe", () => {
+    it("returns null when the target is not an object", () => {
+      expect(History.getSafe(null)).toBeNull();
+      expect(History.getSafe(1)).toBeNull();
+    });
+  });
+
+  describe("#undo / #redo", () => {
+    it("returns false when there is nothing to undo or redo", () => {
+      const history = History.get(new Sample());
+      expect(history.canUndo).toBe(false);
+      expect(history.canRedo).toBe(false);
+      expect(history.undo()).toBe(false);
+      expect(history.redo()).toBe(false);
+    });
+
+    it("undoes and redoes changes per transaction", () => {
+      const sample = new Sample();
+      const history = History.get(sample);
+
+      runInAction(() => {
+        sample.name = "b";
+        sample.name = "c";
+      });
+      runInAction(() => {
+        sample.tags.push("y");
+        sample.box.set(1);
+      });
+      expect(debugHistory(history).undoStack).toHaveLength(2);
+      expect(history.canUndo).toBe(true);
+
+      expect(history.undo()).toBe(true);
+      expect(sample.tags).toEqual(["x"]);
+      expect(sample.box.get()).toBe(0);
+      expect(sample.name).toBe("c");
+      expect(history.canRedo).toBe(true);
+
+      expect(history.undo()).toBe(true);
+      expect(sample.name).toBe("a");
+      expect(sample.upperName).toBe("A");
+      expect(history.canUndo).toBe(false);
+
+      expect(history.redo()).toBe(true);
+      expect(sample.name).toBe("c");
+      expect(history.redo()).toBe(true);
+      expect(sample.tags).toEqual(["x", "y"]);
+      expect(sample.box.get()).toBe(1);
+      expect(history.canRedo).toBe(false);
+    });
+
+    it("does not record computed values", () => {
+      const sample = new Sample();
+      const history = History.get(sample);
+
+      runInAction(() => {
+        sample.name = "b";
+      });
+      const [entry] = debugHistory(history).undoStack;
+      expect(entry.changes.map((change) => change.keyPath)).toEqual(["name"]);
+    });
+
+    it("undoes changes of nested objects", () => {
+      const sample = new Sample();
+      const history = History.get(sample);
+
+      runInAction(() => {
+        sample.other.value = 1;
+        sample.items[0].value = 1;
+      });
+      const [entry] = debugHistory(history).undoStack;
+      expect(entry.changes.map((change) => change.keyPath)).toEqual(["other.value", "items.0.value"]);
+
+      history.undo();
+      expect(sample.other.value).toBe(0);
+      expect(sample.items[0].value).toBe(0);
+
+      history.redo();
+      expect(sample.other.value).toBe(1);
+      expect(sample.items[0].value).toBe(1);
+    });
+
+    it("undoes changes of nested objects added later", () => {
+      const sample = new Sample();
+      const history = History.get(sample);
+
+      const item = new Other();
+      runInAction(() => {
+        sample.items.push(item);
+      });
+      runInAction(() => {
+        item.value = 1;
+      });
+
+      history.undo();
+      expect(item.value).toBe(0);
+      history.undo();
+      expect(sample.items).toHaveLength(1);
+      history.redo();
+      expect(sample.items[1]).toBe(item);
+    });
+
+    it("makes the watcher unchanged when all changes are undone", () => {
+      const sample = new Sample();
+      const history = History.get(sample);
+
+      runInAction(() => {
+        sample.name = "b";
+        sample.other.value = 1;
+      });
+      expect(history.watcher.changed).toBe(true);
+
+      history.undo();
+      expect(history.watcher.changed).toBe(false);
+    });
+
+    it("does not record changes made by undo and redo even inside a transaction", () => {
+      const sample = new Sample();
+      const history = History.get(sample);
+
+      runInAction(() => {
+        sample.name = "b";
+      });
+      runInAction(() => {
+        history.undo();
+      });
+      expect(history.canUndo).toBe(false);
+      expect(history.canRedo).toBe(true);
+
+      runInAction(() => {
+        history.redo();
+      });
+      expect(history.canUndo).toBe(true);
+      expect(history.canRedo).toBe(false);
+    });
+
+    it("clears the redo stack when a new change is recorded", () => {
+      const sample = new Sample();
+      const history = History.get(sample);
+
+      runInAction(() => {
+        sample.name = "b";
+      });
+      history.undo();
+      expect(history.canRedo).toBe(true);
+
+      runInAction(() => {
+        sample.name = "c";
+      });
+      expect(history.canRedo).toBe(false);
+    });
+  });
+
+  it("does not record changes made inside unwatch()", () => {
+    const sample = new Sample();
+    const history = History.get(sample);
+
+    unwatch(() => {
+      runInAction(() => {
+        sample.name = "b";
+      });
+    });
+    expect(history.canUndo).toBe(false);
+  });
+
+  it("keeps the limited number of entries", () => {
+    const sample = new Sample();
+    const history = History.get(sample);
+    history.maxEntries = 2;
+
+    for (const name of ["b", "c", "d"]) {
+      runInAction(() => {
+        sample.name = name;
+      });
+    }
+    expect(debugHistory(history).undoStack).toHaveLength(2);
+
+    history.undo();
+    history.undo();
+    expect(sample.name).toBe("b");
+    expect(history.canUndo).toBe(false);
+  });
+
+  describe("#clear", () => {
+    it("clears all entries", () => {
+      const sample = new Sample();
+      const history = History.get(sample);
+
+      runInAction(() => {
+        sample.name = "b";
+      });
+      runInAction(() => {
+        sample.name = "c";
+      });
+      history.undo();
+
+      history.clear();
+      expect(history.canUndo).toBe(false);
+      expect(history.canRedo).toBe(false);
+    });
+  });
+
+  describe("#dispose", () => {
+    afterEach(() => {
+      vi.unstubAllEnvs();
+    });
+
+    it("stops recording changes", () => {
+      const sample = new Sample();
+      const history = History.get(sample);
+
+      history.dispose();
+      expect(history.isDisposed).toBe(true);
+      runInAction(() => {
+        sample.name = "b";
+        sample.other.value = 1;
+      });
+      expect(history.canUndo).toBe(false);
+      expect(history.watcher.changed).toBe(true); // The watcher is not disposed
+    });
+
+    it("discards the pending changes", () => {
+      const sample = new Sample();
+      const history = History.get(sample);
+
+      runInAction(() => {
+        sample.name = "b";
+        history.dispose();
+      });
+      expect(history.canUndo).toBe(false);
+      expect(debugHistory(history).undoStack).toHaveLength(0);
+    });
+
+    it("warns once and ignores undo/redo after disposal", () => {
+      const sample = new Sample();
+      const history = History.get(sample);
+      const warn = vi.spyOn(console, "warn").mockImplementation(() => {});
+
+      runInAction(() => {
+        sample.name = "b";
+      });
+      history.dispose();
+      expect(history.undo()).toBe(false);
+      expect(history.redo()).toBe(false);
+      expect(sample.name).toBe("b");
+      expect(warn).toHaveBeenCalledTimes(1);
+      expect(warn).toHaveBeenCalledWith("History#undo: The history has been disposed");
+      warn.mockRestore();
+    });
+
+    it("does not warn in production", () => {
+      vi.stubEnv("NODE_ENV", "production");
+      const history = History.get(new Sample());
+      const warn = vi.spyOn(console, "warn").mockImplementation(() => {});
+
+      history.dispose();
+      expect(history.undo()).toBe(false);
+      expect(warn).not.toHaveBeenCalled();
+      warn.mockRestore();
+    });
+
+    it("does nothing when called more than once", () => {
+      const history = History.get(new Sample());
+      history.dispose();
+      expect(() => history.dispose()).not.toThrow();
+    });
+  });
+});
@@ -0,0 +1,249 @@
+import { action, autorun, computed, makeObservable, observable, reaction, runInAction, transaction } from "mobx";
+import { v4 as uuidV4 } from "uuid";
+import { Watcher, WatcherChangeEvent, subscribeWatcher } from "./watcher";
+import { KeyPath } from "./keyPath";
+import { createDisposedWarning } from "./disposal";
+
+const historyKey = Symbol("history");
+const internalToken = Symbol("history.internal");
+const warnIfDisposed = createDisposedWarning("History", "history");
+
+/**
+ * History for undoing and redoing changes detected by Watcher
+ *
+ * - Records changes per transaction
+ * - Records changes of nested objects
+ * - Only writable keys are recorded; changes to `@computed` and getters are restored through their sources
+ * - Changes made inside `unwatch()` are not recorded
+ */
+export class History {
+  static defaultMaxEntries = 100;
+
+  readonly id = uuidV4();
+  readonly watcher: Watcher;
+  readonly #undoStack = observable.array<History.Entry>([], { deep: false });
+  readonly #redoStack = observable.array<History.Entry>([], { deep: false });
+  readonly #pendingChanges: History.Change[] = [];
+  readonly #pendingTick = observable.box(0);
+  readonly #disposers: (() => void)[] = [];
+  #applyingStackCount = 0;
+  #isDisposed = false;
+
+  /** The maximum number of entries to keep in the undo stack */
+  maxEntries = History.defaultMaxEntries;
+
+  /**
+   * Get a history instance for the target object.
+   *
+   * @remarks
+   * - Returns existing instance if one exists for the target
+   * - Creates new instance if none exists
+   * - Recording starts when the instance is created
+   * - Instances are cached and garbage collected with their targets
+   *
+   * @throws `TypeError` if the target is not an object.
+   */
+  static get<T extends object>(target: T): History {
+    const history = this.getSafe(target);
+    if (!history) throw new TypeError("target: Expected an object");
+    return history;
+  }
+
+  /**
+   * Get a history instance for the target object.
+   *
+   * Same as {@link History.get} but returns null instead of throwing an error.
+   */
+  static getSafe(target: any): History | null {
+    if (!target || typeof target !== "object") {
+      return null;
+    }
+
+    let history: History | null = (target as any)[historyKey] ?? null;
+    if (!history) {
+      history = new this(internalToken, target);
+      Object.defineProperty(target, historyKey, { value: history });
+    }
+    return history;
+  }
+
+  private constructor(token: symbol, target: object) {
+    if (token !== internalToken) {
+      throw new Error("private constructor");
+    }
+
+    this.watcher = Watcher.get(target);
+    makeObservable(this);
+
+    this.#disposers.push(
+      subscribeWatcher(this.watcher, (event) => this.#record(event)),
+      reaction(
+        () => this.#pendingTick.get(),
+        () => this.#commit()
+      )
+    );
+  }
+
+  /** Whether there are changes to undo */
+  @computed
+  get canUndo() {
+    return this.#undoStack.length > 0;
+  }
+
+  /** Whether there are undone changes to redo */
+  @computed
+  get canRedo() {
+    return this.#redoStack.length > 0;
+  }
+
+  /**
+   * Undo the last recorded transaction
+   *
+   * @returns `false` if there is nothing to undo
+   */
+  @action
+  undo() {
+    if (warnIfDisposed(this, "undo")) return false;
+    const entry = this.#undoStack.pop();
+    if (!entry) return false;
+    this.#apply(() => {
+      for (let i = entry.changes.length - 1; i >= 0; i--) {
+        const change = entry.changes[i];
+        change.write(change.oldValue);
+      }
+    });
+    this.#redoStack.push(entry);
+    return true;
+  }
+
+  /**
+   * Redo the last undone transaction
+   *
+   * @returns `false` if there is nothing to redo
+   */
+  @action
+  redo() {
+    if (warnIfDisposed(this, "redo")) return false;
+    const entry = this.#redoStack.pop();
+    if (!entry) return false;
+    this.#apply(() => {
+      for (const change of entry.changes) {
+        change.write(change.newValue);
+      }
+    });
+    this.#undoStack.push(entry);
+    return true;
+  }
+
+  /** Clear all recorded transactions */
+  @action
+  clear() {
+    this.#undoStack.clear();
+    this.#redoStack.clear();
+  }
+
+  /** Whether the history has been disposed */
+  get isDisposed() {
+    return this.#isDisposed;
+  }
+
+  /**
+   * Stop recording and release all resources
+   *
+   * @remarks
+   * - Unsubscribes from the watcher and discards the pending changes
+   * - The watcher is not disposed since it may be used by others
+   * - Recorded transactions are kept, but cannot be undone or redone anymore
+   * - Calling this method more than once has no effect
+   */
+  dispose() {
+    if (this.#isDisposed) return;
+    this.#isDisposed = true;
+
+    for (const dispose of this.#disposers.splice(0)) {
+      dispose();
+    }
+    this.#pendingChanges.length = 0;
+  }
+
+  /**
+   * Apply changes without recording them
+   *
+   * Same as `unwatch()`, it only starts recording again when the outermost transaction completes,
+   * since reactions of watchers run at the end of the transaction.
+   */
+  #apply(fn: () => void) {
+    transaction(() => {
+      ++this.#applyingStackCount;
+      try {
+        fn();
+      } finally {
+        autorun(() => --this.#applyingStackCount);
+      }
+    });
+  }
+
+  /**
+   * Record a change to be committed
+   *
+   * Changes are committed after all reactions of the transaction have run.
+   */
+  #record(event: WatcherChangeEvent) {
+    if (this.#applyingStackCount > 0 || !event.write) return;
+    this.#pendingChanges.push({
+      keyPath: event.keyPath,
+      oldValue: event.oldValue,
+      newValue: event.newValue,
+      write: event.write,
+    });
+    runInAction(() => {
+      this.#pendingTick.set(this.#pendingTick.get() + 1);
+    });
+  }
+
+  /** Commit the pending changes as a transaction */
+  #commit() {
+    if (this.#pendingChanges.length === 0) return;
+    const changes = this.#pendingChanges.splice(0);
+    runInAction(() => {
+      this.#undoStack.push({ changes });
+      if (this.#undoStack.length > this.maxEntries) {
+        this.#undoStack.splice(0, this.#undoStack.length - this.maxEntries);
+      }
+      this.#redoStack.clear();
+    });
+  }
+
+  /** @internal @ignore */
+  [internalToken]() {
+    return {
+      undoStack: this.#undoStack,
+      redoStack: this.#redoStack,
+    };
+  }
+}
+
+export namespace History {
+  /** Transaction recorded in the history */
+  export type Entry = {
+    /** Changes in the order they were made */
+    readonly changes: readonly Change[];
+  };
+
+  /** Change recorded in the history */
+  export type Change = {
+    /** Key path relative to the root object */
+    readonly keyPath: KeyPath;
+    /** The value before the change */
+    readonly oldValue: unknown;
+    /** The value after the change */
+    readonly newValue: unknown;
+    /** Write a value to the key */
+    readonly write: (value: unknown) => void;
+  };
+}
+
+/** @internal @ignore */
+export function debugHistory(history: History) {
+  return history[internalToken]();
+}
@@ -1,5 +1,10 @@
 export { nested, StandardNestedFetcher } from "./nested";
 export { Watcher, watch, unwatch } from "./watcher";
 export { Validator, makeValidatable } from "./validator";
+export { makeSentinel } from "./sentinel";
+export { createAnnotation } from "./annotation";
+export { History } from "./history";
 export { ValidationError, type ValidationErrorMapBuilder } from "./error";
 export { KeyPath } from "./keyPath";
+export { JsonPatch } from "./jsonPatch";
+export { createDisposedWarning } from "./disposal";
@@ -0,0 +1,157 @@
+import { observable } from "mobx";
+import { JsonPatch, diffJsonPatch } from "./jsonPatch";
+
+describe("JsonPatch.appendPath", () => {
+  it("appends a reference token", () => {
+    expect(JsonPatch.appendPath("", "a")).toBe("/a");
+    expect(JsonPatch.appendPath("/a", 0)).toBe("/a/0");
+  });
+
+  it("escapes special characters", () => {
+    expect(JsonPatch.appendPath("", "a/b~c")).toBe("/a~1b~0c");
+  });
+});
+
+describe("diffJsonPatch", () => {
+  describe("value", () => {
+    it("replaces the value as a whole", () => {
+      expect(diffJsonPatch("/a", 1, 2, false)).toEqual({
+        operations: [{ op: "replace", path: "/a", value: 2 }],
+        newElements: null,
+      });
+    });
+
+    it("adds the value if it was undefined", () => {
+      expect(diffJsonPatch("/a", undefined, 1, false)).toEqual({
+        operations: [{ op: "add", path: "/a", value: 1 }],
+        newElements: null,
+      });
+    });
+
+    it("removes the value if it becomes undefined", () => {
+      expect(diffJsonPatch("/a", 1, undefined, false)).toEqual({
+        operations: [{ op: "remove", path: "/a" }],
+        newElements: null,
+      });
+    });
+
+    it("converts sets and maps to JSON representable values", () => {
+      expect(diffJsonPatch("/a", null, new Set([1, 2]), false).operations).toEqual([
+        { op: "replace", path: "/a", value: [1, 2] },
+      ]);
+      expect(diffJsonPatch("/a", null, observable.set([1, 2]), false).operations).toEqual([
+        { op: "replace", path: "/a", value: [1, 2] },
+      ]);
+      expect(diffJsonPatch("/a", null, new Map([["k", 1]]), false).operations).toEqual([
+        { op: "replace", path: "/a", value: { k: 1 } },
+      ]);
+      expect(diffJsonPatch("/a", null, observable.map([["k", 1]]), false).operations).toEqual([
+        { op: "replace", path: "/a", value: { k: 1 } },
+      ]);
+    });
+
+    it("replaces arrays as a whole unless diffed element-wise", () => {
+      expect(diffJsonPatch("/a", [1], [1, 2], false)).toEqual({
+        operations: [{ op: "replace", path: "/a", value: [1, 2] }],
+        newElements: null,
+      });
+    });
+  });
+
+  describe("array", () => {
+    it("adds elements", () => {
+      expect(diffJsonPatch("/a", [1], [1, 2, 3], true)).toEqual({
+        operations: [
+          { op: "add", path: "/a/1", value: 2 },
+          { op: "add", path: "/a/2", value: 3 },
+        ],
+        newElements: [2, 3],
+      });
+      expect(diffJsonPatch("/a", [3], [1, 2, 3], true)).toEqual({
+        operations: [
+          { op: "add", path: "/a/0", value: 1 },
+          { op: "add", path: "/a/1", value: 2 },
+        ],
+        newElements: [1, 2],
+      });
+    });
+
+    it("removes elements from the end", () => {
+      expect(diffJsonPatch("/a", [1, 2, 3, 4], [1, 4], true)).toEqual({
+        operations: [
+          { op: "remove", path: "/a/2" },
+          { op: "remove", path: "/a/1" },
+        ],
+        newElements: [],
+      });
+    });
+
+    it("removes and adds elements at once", () => {
+      expect(diffJsonPatch("/a", [1, 2, 3], [2, 3, 4], true)).toEqual({
+        operations: [
+          { op: "remove", path: "/a/0" },
+          { op: "add", path: "/a/2", value: 4 },
+        ],
+        newElements: [4],
+      });
+      expect(diffJsonPatch("/a", [1, 2, 3], [1, 9, 3], true)).toEqual({
+        operations: [
+          { op: "remove", path: "/a/1" },
+          { op: "add", path: "/a/1", value: 9 },
+        ],
+        newElements: [9],
+      });
+    });
+
+    it("replaces elements by position when reordered", () => {
+      expect(diffJsonPatch("/a", [1, 2, 3, 4], [3, 2, 1], true)).toEqual({
+        operations: [
+          { op: "replace", path: "/a/0", value: 3 },
+          { op: "replace", path: "/a/2", value: 1 },
+          { op: "remove", path: "/a/3" },
+        ],
+        newElements: [3, 1],
+      });
+      expect(diffJsonPatch("/a", [1, 2], [2, 1, 5], true)).toEqual({
+        operations: [
+          { op: "replace", path: "/a/0", value: 2 },
+          { op: "replace", path: "/a/1", value: 1 },
+          { op: "add", path: "/a/2", value: 5 },
+        ],
+        newElements: [2, 1, 5],
+      });
+    });
+
+    it("compares elements by identity", () => {
+      const element = { value: 1 };
+      expect(diffJsonPatch("/a", [element], [element], true).operations).toEqual([]);
+      expect(diffJsonPatch("/a", [element], [{ value: 1 }], true).operations).toEqual([
+        { op: "remove", path: "/a/0" },
+        { op: "add", path: "/a/0", value: { value: 1 } },
+      ]);
+    });
+  });
+
+  describe("map", () => {
+    it("adds, removes, and replaces entries", () => {
+      const oldValue = new Map([
+        ["a", 1],
+        ["b", 2],
+        ["c", 3],
+      ]);
+      const newValue = new Map([
+        ["a", 1],
+        ["b", 9],
+        ["d", 4],
+      ]);
+      expect(diffJsonPatch("/m", oldValue, newValue, true)).toEqual({
+        operations: [
+          { op: "replace", path: "/m/b", value: 9 },
+          { op: "remove", path: "/m/c" },
+          { op: "add", path: "/m/d", value: 4 },
+        ],
+        newElements: [9, 4],
+      });
+    });
+  });
+});
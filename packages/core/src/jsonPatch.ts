@@ -0,0 +1,161 @@
+import { isObservableMap, isObservableSet } from "mobx";
+import { KeyPath } from "./keyPath";
+
+/**
+ * JSON Patch document ([RFC 6902](https://datatracker.ietf.org/doc/html/rfc6902))
+ *
+ * Only `add`, `remove`, and `replace` operations are produced.
+ */
+export type JsonPatch = JsonPatch.Operation[];
+
+export namespace JsonPatch {
+  /** JSON Patch operation */
+  export type Operation =
+    | { readonly op: "add"; readonly path: string; readonly value: unknown }
+    | { readonly op: "remove"; readonly path: string }
+    | { readonly op: "replace"; readonly path: string; readonly value: unknown };
+
+  /**
+   * Append a reference token to a JSON Pointer
+   *
+   * Escapes `~` and `/` in the token.
+   */
+  export function appendPath(path: string, token: string | number) {
+    return `${path}/${String(token).replace(/~/g, "~0").replace(/\//g, "~1")}`;
+  }
+}
+
+/**
+ * Build JSON Patch operations for a change of a value
+ *
+ * @param path - JSON Pointer of the value
+ * @param elementWise - Whether to produce operations for each element of arrays and maps
+ *
+ * @returns
+ * - `operations` - The operations to apply the change
+ * - `newElements` - The elements added or replaced when diffed element-wise,\
+ *   or `null` when the value is replaced as a whole
+ */
+export function diffJsonPatch(
+  path: string,
+  oldValue: unknown,
+  newValue: unknown,
+  elementWise: boolean
+): { operations: JsonPatch.Operation[]; newElements: unknown[] | null } {
+  if (elementWise && Array.isArray(oldValue) && Array.isArray(newValue)) {
+    return diffArray(path, oldValue, newValue);
+  }
+  if (elementWise && oldValue instanceof Map && newValue instanceof Map) {
+    return diffMap(path, oldValue, newValue);
+  }
+
+  const operations: JsonPatch.Operation[] = [];
+  if (oldValue === undefined) {
+    operations.push({ op: "add", path, value: toJsonValue(newValue) });
+  } else if (newValue === undefined) {
+    operations.push({ op: "remove", path });
+  } else {
+    operations.push({ op: "replace", path, value: toJsonValue(newValue) });
+  }
+  return { operations, newElements: null };
+}
+
+/**
+ * Diff arrays by identity of elements
+ *
+ * - Common leading and trailing elements are skipped
+ * - Elements only in the old array are removed and elements only in the new array are added
+ * - If the remaining elements are reordered, the differing elements are replaced by position instead
+ */
+function diffArray(path: string, oldValue: unknown[], newValue: unknown[]) {
+  let start = 0;
+  while (start < oldValue.length && start < newValue.length && Object.is(oldValue[start], newValue[start])) {
+    start++;
+  }
+  let oldEnd = oldValue.length;
+  let newEnd = newValue.length;
+  while (oldEnd > start && newEnd > start && Object.is(oldValue[oldEnd - 1], newValue[newEnd - 1])) {
+    oldEnd--;
+    newEnd--;
+  }
+
+  const oldMiddle = oldValue.slice(start, oldEnd);
+  const newMiddle = newValue.slice(start, newEnd);
+  const oldSet = new Set(oldMiddle);
+  const newSet = new Set(newMiddle);
+  const oldRetained = oldMiddle.filter((element) => newSet.has(element));
+  const newRetained = newMiddle.filter((element) => oldSet.has(element));
+  const isReordered =
+    oldRetained.length !== newRetained.length || oldRetained.some((element, i) => !Object.is(element, newRetained[i]));
+
+  const operations: JsonPatch.Operation[] = [];
+  const newElements: unknown[] = [];
+  let addStart = start;
+  if (isReordered) {
+    addStart = start + Math.min(oldMiddle.length, newMiddle.length);
+    for (let i = start; i < addStart; i++) {
+      if (Object.is(oldValue[i], newValue[i])) continue;
+      operations.push({ op: "replace", path: JsonPatch.appendPath(path, i), value: toJsonValue(newValue[i]) });
+      newElements.push(newValue[i]);
+    }
+  }
+  // Remove from the end so that indices of the remaining elements are not shifted
+  for (let i = oldEnd - 1; i >= addStart; i--) {
+    if (!isReordered && newSet.has(oldValue[i])) continue;
+    operations.push({ op: "remove", path: JsonPatch.appendPath(path, i) });
+  }
+  for (let i = addStart; i < newEnd; i++) {
+    if (!isReordered && oldSet.has(newValue[i])) continue;
+    operations.push({ op: "add", path: JsonPatch.appendPath(path, i), value: toJsonValue(newValue[i]) });
+    newElements.push(newValue[i]);
+  }
+  return { operations, newElements };
+}
+
+/** Diff maps by identity of values */
+function diffMap(path: string, oldValue: Map<unknown, unknown>, newValue: Map<unknown, unknown>) {
+  const operations: JsonPatch.Operation[] = [];
+  const newElements: unknown[] = [];
+  for (const [key, element] of oldValue) {
+    const elementPath = JsonPatch.appendPath(path, toMapKeyToken(key));
+    if (!newValue.has(key)) {
+      operations.push({ op: "remove", path: elementPath });
+    } else if (!Object.is(element, newValue.get(key))) {
+      operations.push({ op: "replace", path: elementPath, value: toJsonValue(newValue.get(key)) });
+      newElements.push(newValue.get(key));
+    }
+  }
+  for (const [key, element] of newValue) {
+    if (oldValue.has(key)) continue;
+    operations.push({ op: "add", path: JsonPatch.appendPath(path, toMapKeyToken(key)), value: toJsonValue(element) });
+    newElements.push(element);
+  }
+  return { operations, newElements };
+}
+
+/**
+ * Convert a key of a map to a reference token
+ *
+ * Keys other than strings and numbers are encoded in the same way as key paths.
+ */
+function toMapKeyToken(key: unknown) {
+  if (typeof key === "string" || typeof key === "number") return key;
+  return KeyPath.encodeKey(key as KeyPath.Key);
+}
+
+/**
+ * Convert a value to be representable in JSON
+ *
+ * - Sets are converted to arrays
+ * - Maps are converted to objects
+ * - Other values are returned as-is
+ */
+function toJsonValue(value: unknown): unknown {
+  if (value instanceof Set || isObservableSet(value)) {
+    return Array.from(value);
+  }
+  if (value instanceof Map || isObservableMap(value)) {
+    return Object.fromEntries(Array.from(value, ([key, element]) => [String(key), element]));
+  }
+  return value;
+}
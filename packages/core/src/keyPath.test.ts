@@ -1,4 +1,11 @@
+import { autorun, type IObservableValue, makeObservable, observable, runInAction } from "mobx";
 import { KeyPath, KeyPathMultiMap } from "./keyPath";
+import { nested } from "./nested";
+import { Watcher } from "./watcher";
+import path from "path";
+import ts from "typescript";
+import { setFlagsFromString } from "v8";
+import { runInNewContext } from "vm";
 
 describe("KeyPath.Component", () => {
   test("being a branded type", () => {
@@ -56,6 +63,257 @@ describe("KeyPath.build", () => {
   it("ignores self paths", () => {
     expect(KeyPath.build("a", KeyPath.Self, "c", KeyPath.Self)).toBe("a.c");
   });
+
+  it("builds a key path with symbols", () => {
+    const symbol = Symbol("b");
+    expect(KeyPath.build("a", symbol, "c")).toBe(`a.${KeyPath.encodeKey(symbol)}.c`);
+  });
+});
+
+describe("KeyPath.encodeKey", () => {
+  it("returns strings as-is", () => {
+    expect(KeyPath.encodeKey("a")).toBe("a");
+  });
+
+  it("converts numbers to decimal strings", () => {
+    expect(KeyPath.encodeKey(1)).toBe("1");
+  });
+
+  it("encodes symbols uniquely", () => {
+    const symbol1 = Symbol("a");
+    const symbol2 = Symbol("a");
+    expect(KeyPath.encodeKey(symbol1)).toMatch(/^@@a:\d+$/);
+    expect(KeyPath.encodeKey(symbol1)).toBe(KeyPath.encodeKey(symbol1));
+    expect(KeyPath.encodeKey(symbol1)).not.toBe(KeyPath.encodeKey(symbol2));
+  });
+
+  it("encodes registered symbols by their keys", () => {
+    expect(KeyPath.encodeKey(Symbol.for("a"))).toBe("@@@a");
+    expect(KeyPath.encodeKey(Symbol.for("a.b"))).toBe("@@@a\\.b");
+    expect(KeyPath.encodeKey(Symbol.for("@a"))).toBe("@@@\\@a");
+    expect(KeyPath.encodeKey(Symbol.for("a"))).not.toBe(KeyPath.encodeKey(Symbol("a")));
+  });
+
+  it("escapes dots in descriptions", () => {
+    expect(KeyPath.split(KeyPath.encodeKey(Symbol("a.b")))).toHaveLength(1);
+    expect(KeyPath.encodeKey(Symbol())).toMatch(/^@@:\d+$/);
+  });
+
+  it("escapes strings", () => {
+    expect(KeyPath.encodeKey("a.b")).toBe("a\\.b");
+    expect(KeyPath.encodeKey("a\\b")).toBe("a\\\\b");
+    expect(KeyPath.encodeKey("@@a:1")).toBe("\\@@a:1");
+  });
+
+  it("encodes objects by identity", () => {
+    class Id {}
+    const id1 = new Id();
+    const id2 = new Id();
+    expect(KeyPath.encodeKey(id1)).toMatch(/^@@Id:\d+$/);
+    expect(KeyPath.encodeKey(id1)).toBe(KeyPath.encodeKey(id1));
+    expect(KeyPath.encodeKey(id1)).not.toBe(KeyPath.encodeKey(id2));
+  });
+
+  it("encodes objects by serialized values", () => {
+    class Id {
+      constructor(readonly value: string) {}
+      [KeyPath.serialize]() {
+        return this.value;
+      }
+    }
+    expect(KeyPath.encodeKey(new Id("a.b"))).toBe("a\\.b");
+    expect(KeyPath.encodeKey(new Id("a"))).toBe(KeyPath.encodeKey(new Id("a")));
+  });
+
+  it("converts other primitives to strings", () => {
+    expect(KeyPath.encodeKey(true as any)).toBe("true");
+    expect(KeyPath.encodeKey(null as any)).toBe("null");
+  });
+});
+
+describe("KeyPath.decodeKey", () => {
+  it("decodes encoded symbols", () => {
+    const symbol = Symbol("a");
+    expect(KeyPath.decodeKey(KeyPath.encodeKey(symbol))).toBe(symbol);
+  });
+
+  it("decodes registered symbols", () => {
+    expect(KeyPath.decodeKey(KeyPath.encodeKey(Symbol.for("a")))).toBe(Symbol.for("a"));
+    expect(KeyPath.decodeKey(KeyPath.encodeKey(Symbol.for("a.b")))).toBe(Symbol.for("a.b"));
+    expect(KeyPath.decodeKey("@@@a")).toBe(Symbol.for("a"));
+  });
+
+  it("decodes objects encoded by identity", () => {
+    const key = {};
+    expect(KeyPath.decodeKey(KeyPath.encodeKey(key))).toBe(key);
+  });
+
+  it("unescapes strings", () => {
+    expect(KeyPath.decodeKey("a")).toBe("a");
+    expect(KeyPath.decodeKey("a\\.b")).toBe("a.b");
+    expect(KeyPath.decodeKey("\\@@a:1")).toBe("@@a:1");
+    expect(KeyPath.decodeKey("@@unknown:0")).toBe("@@unknown:0");
+  });
+
+  it("forgets keys encoded by identity once they are garbage collected", async () => {
+    setFlagsFromString("--expose-gc");
+    const gc: () => void = runInNewContext("gc");
+
+    const count = KeyPath.debugIdentityCount();
+    const components = (() => {
+      const keys = [{}, {}, Symbol("a")];
+      return keys.map((key) => KeyPath.encodeKey(key));
+    })();
+    expect(KeyPath.debugIdentityCount()).toBe(count + 3);
+
+    // Finalization callbacks run asynchronously after garbage collection
+    for (let i = 0; i < 10 && KeyPath.debugIdentityCount() > count; i++) {
+      await new Promise((resolve) => setTimeout(resolve, 10));
+      gc();
+    }
+    expect(KeyPath.debugIdentityCount()).toBeLessThanOrEqual(count);
+    for (const component of components) {
+      expect(KeyPath.decodeKey(component)).toBe(component);
+    }
+  });
+});
+
+describe("KeyPath.split", () => {
+  it("returns an empty array for a self path", () => {
+    expect(KeyPath.split(KeyPath.Self)).toEqual([]);
+  });
+
+  it("splits a key path at unescaped dots", () => {
+    expect(KeyPath.split("a.b\\.c.d" as KeyPath)).toEqual(["a", "b\\.c", "d"]);
+    expect(KeyPath.split("a\\\\.b" as KeyPath)).toEqual(["a\\\\", "b"]);
+  });
+});
+
+describe("KeyPath.components", () => {
+  it("returns the decoded keys", () => {
+    const symbol = Symbol("c");
+    expect(KeyPath.components(KeyPath.build("a\\.b", symbol))).toEqual(["a.b", symbol]);
+  });
+
+  it("round-trips with KeyPath.fromKeys", () => {
+    const keys = ["a.b", "c\\", "@d", Symbol("e.f"), {}];
+    expect(KeyPath.components(KeyPath.fromKeys(keys))).toEqual(keys);
+  });
+});
+
+describe("KeyPath.fromKeys", () => {
+  it("escapes the keys", () => {
+    expect(KeyPath.fromKeys(["a.b", 0, "c"])).toBe("a\\.b.0.c");
+  });
+
+  it("returns a self path for no keys", () => {
+    expect(KeyPath.fromKeys([])).toBe(KeyPath.Self);
+  });
+});
+
+describe("KeyPath.of", () => {
+  type Sample = {
+    name: string;
+    items: { price: number; tags: Set<string> }[];
+    byKey: Map<string, { value: number }>;
+    box: IObservableValue<{ inner: boolean }>;
+    optional?: { field: string };
+    method(): void;
+  };
+
+  it("builds a key path from the keys", () => {
+    expect(KeyPath.of<Sample>()("items", 0, "price")).toBe("items.0.price");
+    expect(KeyPath.of<Sample>()("byKey", "a.b", "value")).toBe("byKey.a\\.b.value");
+  });
+
+  test("accepting only the keys of the type", () => {
+    KeyPath.of<Sample>()("name");
+    KeyPath.of<Sample>()("items", 0, "tags", 1);
+    KeyPath.of<Sample>()("box", "inner");
+    KeyPath.of<Sample>()("optional", "field");
+    // @ts-expect-error - Typo
+    KeyPath.of<Sample>()("itmes");
+    // @ts-expect-error - Arrays are indexed by numbers
+    KeyPath.of<Sample>()("items", "0");
+    // @ts-expect-error - Leaves have no children
+    KeyPath.of<Sample>()("name", "length");
+    // @ts-expect-error - Methods are excluded
+    KeyPath.of<Sample>()("method");
+  });
+
+  test("KeyPath.CheckKeys", () => {
+    expectTypeOf<KeyPath.CheckKeys<Sample, ["items", 0, "price"]>>().toEqualTypeOf<["items", 0, "price"]>();
+    expectTypeOf<KeyPath.CheckKeys<Sample, ["byKey", "a", "value"]>>().toEqualTypeOf<["byKey", "a", "value"]>();
+    expectTypeOf<KeyPath.CheckKeys<Sample, ["items", 0, "prcie"]>>().toEqualTypeOf<["items", 0, "price" | "tags"]>();
+    expectTypeOf<KeyPath.CheckKeys<Sample, ["name", "length"]>>().toEqualTypeOf<["name", never]>();
+    expectTypeOf<KeyPath.CheckKeys<any, ["a", "b"]>>().toEqualTypeOf<["a", "b"]>();
+  });
+
+  test("accepting keys of recursive types at any depth", () => {
+    type Recursive = { child: Recursive; value: number };
+    KeyPath.of<Recursive>()("child", "child", "child", "child", "child", "child", "child", "value");
+    // @ts-expect-error - Typo
+    KeyPath.of<Recursive>()("child", "child", "child", "child", "child", "child", "child", "valeu");
+  });
+
+  test("type-checking in time proportional to the number of keys", () => {
+    const fields = Array.from({ length: 8 }, (_, i) => `f${i}: string;`).join(" ");
+    const references = Array.from({ length: 7 }, (_, i) => `p${i}: Person;`).join(" ");
+    const files = new Map([
+      [
+        path.join(__dirname, "__person.ts"),
+        `export type Person = { ${fields} ${references} friends: Person[]; byName: Map<string, Person> };`,
+      ],
+      [
+        path.join(__dirname, "__control.ts"),
+        `import { KeyPath } from "./keyPath";
+           import type { Person } from "./__person";
+           KeyPath.of<Person>()("f0");`,
+      ],
+      [
+        path.join(__dirname, "__deep.ts"),
+        `import { KeyPath } from "./keyPath";
+           import type { Person } from "./__person";
+           KeyPath.of<Person>()("p0", "p1", "friends", 0, "byName", "a", "p6", "f7");
+           // @ts-expect-error - Typo
+           KeyPath.of<Person>()("p0", "p1", "friends", 0, "byName", "a", "p6", "f8");`,
+      ],
+    ]);
+    const host = ts.createCompilerHost({});
+    const getSourceFile = host.getSourceFile;
+    host.getSourceFile = (fileName, ...args) => {
+      const text = files.get(fileName);
+      return text !== undefined
+        ? ts.createSourceFile(fileName, text, ts.ScriptTarget.ESNext)
+        : getSourceFile(fileName, ...args);
+    };
+    const fileExists = host.fileExists;
+    host.fileExists = (fileName) => files.has(fileName) || fileExists(fileName);
+    const program = ts.createProgram({
+      rootNames: [...files.keys()],
+      options: {
+        strict: true,
+        skipLibCheck: true,
+        noEmit: true,
+        types: [],
+        target: ts.ScriptTarget.ESNext,
+        module: ts.ModuleKind.CommonJS,
+        moduleResolution: ts.ModuleResolutionKind.Node10,
+      },
+      host,
+    });
+
+    const check = (fileName: string) => {
+      const before = program.getInstantiationCount();
+      const diagnostics = program.getSemanticDiagnostics(program.getSourceFile(path.join(__dirname, fileName)));
+      expect(diagnostics.map((diagnostic) => ts.flattenDiagnosticMessageText(diagnostic.messageText, "\n"))).toEqual(
+        []
+      );
+      return program.getInstantiationCount() - before;
+    };
+    check("__control.ts");
+    expect(check("__deep.ts")).toBeLessThan(5000);
+  }, 60_000);
 });
 
 describe("KeyPath.getParentKey", () => {
@@ -71,6 +329,10 @@ describe("KeyPath.getParentKey", () => {
   it("returns a self path if the key path is empty", () => {
     expect(KeyPath.getParentKey("" as KeyPath)).toBe(KeyPath.Self);
   });
+
+  it("considers escaped dots", () => {
+    expect(KeyPath.getParentKey("a\\.b.c" as KeyPath)).toBe("a\\.b");
+  });
 });
 
 describe("KeyPath.getRelative", () => {
@@ -108,6 +370,95 @@ describe("KeyPath.getRelative", () => {
   });
 });
 
+describe("KeyPath.isUnder", () => {
+  it("returns true for the same key path", () => {
+    expect(KeyPath.isUnder("a.b" as KeyPath, "a.b" as KeyPath)).toBe(true);
+  });
+
+  it("returns true for descendant key paths", () => {
+    expect(KeyPath.isUnder("a.b.c" as KeyPath, "a" as KeyPath)).toBe(true);
+  });
+
+  it("returns false for other key paths", () => {
+    expect(KeyPath.isUnder("a" as KeyPath, "a.b" as KeyPath)).toBe(false);
+    expect(KeyPath.isUnder("ab" as KeyPath, "a" as KeyPath)).toBe(false);
+  });
+
+  it("considers every key path under a self path", () => {
+    expect(KeyPath.isUnder("a" as KeyPath, KeyPath.Self)).toBe(true);
+    expect(KeyPath.isUnder(KeyPath.Self, KeyPath.Self)).toBe(true);
+    expect(KeyPath.isUnder(KeyPath.Self, "a" as KeyPath)).toBe(false);
+  });
+});
+
+describe("KeyPath.isPattern", () => {
+  it("returns true for key paths with wildcards", () => {
+    expect(KeyPath.isPattern("a.*.b" as KeyPath)).toBe(true);
+    expect(KeyPath.isPattern("a.**" as KeyPath)).toBe(true);
+  });
+
+  it("returns false for other key paths", () => {
+    expect(KeyPath.isPattern("a.b" as KeyPath)).toBe(false);
+    expect(KeyPath.isPattern(KeyPath.Self)).toBe(false);
+    expect(KeyPath.isPattern(KeyPath.fromKeys(["a", "*"]))).toBe(false);
+  });
+});
+
+describe("KeyPath.match", () => {
+  it("matches key paths without wildcards exactly", () => {
+    expect(KeyPath.match("a.b" as KeyPath, "a.b" as KeyPath)).toBe(true);
+    expect(KeyPath.match("a.b.c" as KeyPath, "a.b" as KeyPath)).toBe(false);
+  });
+
+  it("matches exactly one component with *", () => {
+    expect(KeyPath.match("items.0.name" as KeyPath, "items.*.name" as KeyPath)).toBe(true);
+    expect(KeyPath.match("items.name" as KeyPath, "items.*.name" as KeyPath)).toBe(false);
+    expect(KeyPath.match("items.0.1.name" as KeyPath, "items.*.name" as KeyPath)).toBe(false);
+  });
+
+  it("matches zero or more components with **", () => {
+    expect(KeyPath.match("address" as KeyPath, "address.**" as KeyPath)).toBe(true);
+    expect(KeyPath.match("address.city.name" as KeyPath, "address.**" as KeyPath)).toBe(true);
+    expect(KeyPath.match("a.x.y.b" as KeyPath, "a.**.b" as KeyPath)).toBe(true);
+    expect(KeyPath.match("a.x.y.c" as KeyPath, "a.**.b" as KeyPath)).toBe(false);
+  });
+
+  it("matches key paths under the matching key paths with prefix match", () => {
+    expect(KeyPath.match("items.0.name.first" as KeyPath, "items.*.name" as KeyPath, true)).toBe(true);
+    expect(KeyPath.match("items.0" as KeyPath, "items.*.name" as KeyPath, true)).toBe(false);
+  });
+
+  it("does not treat escaped * as a wildcard", () => {
+    expect(KeyPath.match("a.b" as KeyPath, KeyPath.fromKeys(["a", "*"]))).toBe(false);
+    expect(KeyPath.match(KeyPath.fromKeys(["a", "*"]), KeyPath.fromKeys(["a", "*"]))).toBe(true);
+  });
+
+  it("matches a self path", () => {
+    expect(KeyPath.match(KeyPath.Self, KeyPath.Self)).toBe(true);
+    expect(KeyPath.match(KeyPath.Self, "**" as KeyPath)).toBe(true);
+    expect(KeyPath.match(KeyPath.Self, "*" as KeyPath)).toBe(false);
+  });
+});
+
+describe("KeyPath.toJsonPointer", () => {
+  it("returns an empty string for a self path", () => {
+    expect(KeyPath.toJsonPointer(KeyPath.Self)).toBe("");
+  });
+
+  it("converts a key path to a JSON Pointer", () => {
+    expect(KeyPath.toJsonPointer("a" as KeyPath)).toBe("/a");
+    expect(KeyPath.toJsonPointer("a.0.b" as KeyPath)).toBe("/a/0/b");
+  });
+
+  it("escapes special characters", () => {
+    expect(KeyPath.toJsonPointer("a/b.c~d" as KeyPath)).toBe("/a~1b/c~0d");
+  });
+
+  it("unescapes keys", () => {
+    expect(KeyPath.toJsonPointer(KeyPath.fromKeys(["a.b", "c"]))).toBe("/a.b/c");
+  });
+});
+
 describe("KeyPath.getAncestors", () => {
   it("includes the key path itself when includeSelf is true", () => {
     expect(Array.from(KeyPath.getAncestors("a.b.c" as KeyPath))).toEqual(["a.b.c", "a.b", "a"]);
@@ -133,6 +484,243 @@ describe("KeyPath.getAncestors", () => {
   });
 });
 
+describe("KeyPath.get", () => {
+  const symbolKey = Symbol("key");
+  const objectKey = { id: 1 };
+  const target = {
+    name: "a",
+    "a.b": 1,
+    [symbolKey]: 2,
+    list: [{ value: 3 }],
+    set: new Set(["x", "y"]),
+    map: new Map<unknown, unknown>([
+      ["key", 4],
+      [1, 5],
+      [objectKey, 6],
+    ]),
+    box: observable.box({ value: 7 }),
+  };
+
+  it("reads properties", () => {
+    expect(KeyPath.get(target, "name" as KeyPath)).toBe("a");
+    expect(KeyPath.get(target, KeyPath.fromKeys(["a.b"]))).toBe(1);
+    expect(KeyPath.get(target, KeyPath.build(symbolKey))).toBe(2);
+  });
+
+  it("reads elements of arrays and sets", () => {
+    expect(KeyPath.get(target, "list.0.value" as KeyPath)).toBe(3);
+    expect(KeyPath.get(target, "set.1" as KeyPath)).toBe("y");
+  });
+
+  it("reads values of maps", () => {
+    expect(KeyPath.get(target, "map.key" as KeyPath)).toBe(4);
+    expect(KeyPath.get(target, "map.1" as KeyPath)).toBe(5);
+    expect(KeyPath.get(target, KeyPath.fromKeys(["map", objectKey]))).toBe(6);
+  });
+
+  it("unwraps boxed observables", () => {
+    expect(KeyPath.get(target, "box" as KeyPath)).toEqual({ value: 7 });
+    expect(KeyPath.get(target, "box.value" as KeyPath)).toBe(7);
+  });
+
+  it("reads observable collections", () => {
+    const model = observable({ list: [1], set: new Set([2]), map: new Map([["key", 3]]) });
+    expect(KeyPath.get(model, "list.0" as KeyPath)).toBe(1);
+    expect(KeyPath.get(model, "set.0" as KeyPath)).toBe(2);
+    expect(KeyPath.get(model, "map.key" as KeyPath)).toBe(3);
+  });
+
+  it("returns the target itself for a self path", () => {
+    expect(KeyPath.get(target, KeyPath.Self)).toBe(target);
+  });
+
+  it("returns undefined for missing key paths", () => {
+    expect(KeyPath.get(target, "missing.value" as KeyPath)).toBeUndefined();
+    expect(KeyPath.get(target, "list.5.value" as KeyPath)).toBeUndefined();
+    expect(KeyPath.get(target, "list.first" as KeyPath)).toBeUndefined();
+    expect(KeyPath.get(target, "name.length" as KeyPath)).toBeUndefined();
+  });
+
+  describe("with @nested.keyed", () => {
+    class Row {
+      @observable name: string;
+
+      constructor(
+        readonly id: string,
+        name: string
+      ) {
+        this.name = name;
+        makeObservable(this);
+      }
+    }
+
+    class Order {
+      @nested.keyed((row: Row) => row.id) @observable rows = [new Row("a", "A"), new Row("b", "B")];
+      @nested.keyed((row: Row) => row.id) @observable rowSet = new Set([new Row("c", "C")]);
+      @nested.keyed((row: Row) => row.id) @observable rowMap = new Map([[1, new Row("d", "D")]]);
+      @nested @observable plainRows = [new Row("e", "E")];
+
+      constructor() {
+        makeObservable(this);
+      }
+    }
+
+    it("reads elements by their keys", () => {
+      const order = new Order();
+      expect(KeyPath.get(order, KeyPath.build("rows", "b", "name"))).toBe("B");
+      expect(KeyPath.get(order, KeyPath.build("rowSet", "c", "name"))).toBe("C");
+      expect(KeyPath.get(order, KeyPath.build("rowMap", "d", "name"))).toBe("D");
+    });
+
+    it("reads the key paths reported by Watcher", () => {
+      const order = new Order();
+      const watcher = Watcher.get(order);
+      runInAction(() => {
+        order.rows.reverse();
+        order.rows[0].name = "changed";
+      });
+      const keyPath = KeyPath.build("rows", "b", "name");
+      expect(watcher.changedKeyPaths).toContain(keyPath);
+      expect(KeyPath.get(order, keyPath)).toBe("changed");
+    });
+
+    it("falls back to indices and map keys", () => {
+      const order = new Order();
+      expect(KeyPath.get(order, "rows.0.name" as KeyPath)).toBe("A");
+      expect(KeyPath.get(order, KeyPath.build("rowMap", 1, "name"))).toBe("D");
+      expect(KeyPath.get(order, KeyPath.build("rows", "missing"))).toBeUndefined();
+    });
+
+    it("does not look up elements by keys without @nested.keyed", () => {
+      const order = new Order();
+      expect(KeyPath.get(order, KeyPath.build("plainRows", "e"))).toBeUndefined();
+      expect(KeyPath.get(order, "plainRows.0.name" as KeyPath)).toBe("E");
+    });
+  });
+});
+
+describe("KeyPath.set", () => {
+  it("writes properties", () => {
+    const symbolKey = Symbol("key");
+    const target = { name: "a", "a.b": 1, [symbolKey]: 2, nested: { value: 3 } };
+    KeyPath.set(target, "name" as KeyPath, "b");
+    KeyPath.set(target, KeyPath.fromKeys(["a.b"]), 10);
+    KeyPath.set(target, KeyPath.build(symbolKey), 20);
+    KeyPath.set(target, "nested.value" as KeyPath, 30);
+    expect(target).toEqual({ name: "b", "a.b": 10, [symbolKey]: 20, nested: { value: 30 } });
+  });
+
+  it("writes elements of arrays and sets", () => {
+    const target = { list: [1, 2], set: new Set(["x", "y", "z"]) };
+    KeyPath.set(target, "list.1" as KeyPath, 20);
+    KeyPath.set(target, "set.1" as KeyPath, "Y");
+    expect(target.list).toEqual([1, 20]);
+    expect(Array.from(target.set)).toEqual(["x", "Y", "z"]);
+  });
+
+  it("writes values of maps", () => {
+    const objectKey = { id: 1 };
+    const target = {
+      map: new Map<unknown, number>([
+        [1, 1],
+        [objectKey, 2],
+      ]),
+    };
+    KeyPath.set(target, "map.1" as KeyPath, 10);
+    KeyPath.set(target, KeyPath.fromKeys(["map", objectKey]), 20);
+    KeyPath.set(target, "map.new" as KeyPath, 30);
+    expect(target.map).toEqual(
+      new Map<unknown, number>([
+        [1, 10],
+        [objectKey, 20],
+        ["new", 30],
+      ])
+    );
+  });
+
+  it("writes through boxed observables", () => {
+    const box = observable.box(1);
+    const target = { box, nested: observable.box({ value: 2 }) };
+    KeyPath.set(target, "box" as KeyPath, 10);
+    KeyPath.set(target, "nested.value" as KeyPath, 20);
+    expect(target.box).toBe(box);
+    expect(box.get()).toBe(10);
+    expect(target.nested.get()).toEqual({ value: 20 });
+  });
+
+  it("writes observable values in an action", () => {
+    const model = observable({ list: [1], set: new Set([1, 2, 3]), map: new Map([["key", 1]]) });
+    const seen: number[][] = [];
+    const dispose = autorun(() => seen.push(Array.from(model.set)));
+    KeyPath.set(model, "list.0" as KeyPath, 10);
+    KeyPath.set(model, "set.1" as KeyPath, 20);
+    KeyPath.set(model, "map.key" as KeyPath, 10);
+    dispose();
+    expect(model.list).toEqual([10]);
+    expect(model.map.get("key")).toBe(10);
+    expect(seen).toEqual([
+      [1, 2, 3],
+      [1, 20, 3],
+    ]);
+  });
+
+  it("throws an error for a self path", () => {
+    expect(() => KeyPath.set({}, KeyPath.Self, 1)).toThrowError(/self path/);
+  });
+
+  it("throws an error when the parent does not exist", () => {
+    expect(() => KeyPath.set({}, "missing.value" as KeyPath, 1)).toThrowError(/Cannot set a value at missing.value/);
+  });
+
+  it("throws an error for an invalid index", () => {
+    expect(() => KeyPath.set({ list: [] }, "list.first" as KeyPath, 1)).toThrowError(/Expected an index/);
+    expect(() => KeyPath.set({ set: new Set() }, "set.0" as KeyPath, 1)).toThrowError(/Expected an index/);
+  });
+
+  describe("with @nested.keyed", () => {
+    class Row {
+      @observable name: string;
+
+      constructor(
+        readonly id: string,
+        name: string
+      ) {
+        this.name = name;
+        makeObservable(this);
+      }
+    }
+
+    class Order {
+      @nested.keyed((row: Row) => row.id) @observable rows = [new Row("a", "A"), new Row("b", "B")];
+      @nested.keyed((row: Row) => row.id) @observable rowSet = new Set([new Row("c", "C"), new Row("d", "D")]);
+      @nested.keyed((row: Row) => row.id) @observable rowMap = new Map([[1, new Row("e", "E")]]);
+
+      constructor() {
+        makeObservable(this);
+      }
+    }
+
+    it("writes properties of elements by their keys", () => {
+      const order = new Order();
+      KeyPath.set(order, KeyPath.build("rows", "b", "name"), "B2");
+      KeyPath.set(order, KeyPath.build("rowMap", "e", "name"), "E2");
+      expect(order.rows[1].name).toBe("B2");
+      expect(order.rowMap.get(1)!.name).toBe("E2");
+    });
+
+    it("replaces elements by their keys", () => {
+      const order = new Order();
+      const row = new Row("x", "X");
+      KeyPath.set(order, KeyPath.build("rows", "a"), row);
+      KeyPath.set(order, KeyPath.build("rowSet", "d"), row);
+      KeyPath.set(order, KeyPath.build("rowMap", "e"), row);
+      expect(order.rows.map((r) => r.id)).toEqual(["x", "b"]);
+      expect(Array.from(order.rowSet, (r) => r.id)).toEqual(["c", "x"]);
+      expect(order.rowMap.get(1)).toBe(row);
+    });
+  });
+});
+
 describe("KeyPathMultiMap", () => {
   describe("#findExact", () => {
     it("yields no values when key path does not exist", () => {
@@ -1,9 +1,20 @@
+import {
+  type IObservableValue,
+  isBoxedObservable,
+  isObservableArray,
+  isObservableMap,
+  isObservableSet,
+  runInAction,
+} from "mobx";
+
 /**
  * Key paths represent paths to access nested properties in an object
  *
  * Key paths can be either:
  * - A dot-notation string representing nested properties (e.g. "user.address.street")
  * - A special Self symbol representing the current object
+ *
+ * Keys containing dots are escaped, and symbol and object keys are encoded (see {@link KeyPath.encodeKey}).
  */
 export type KeyPath = KeyPath.Component | KeyPath.Self;
 
@@ -15,6 +26,164 @@ export namespace KeyPath {
   /** Self path symbol */
   export const Self = Symbol("self") as Self;
 
+  /** Keys that can be encoded as key path components */
+  export type Key = string | number | symbol | object;
+
+  /**
+   * Method to serialize an object used as a key (e.g., a key of a map)
+   *
+   * Objects implementing this method are encoded by their serialized values instead of their identities.
+   *
+   * @example
+   * ```typescript
+   * class UserId {
+   *   constructor(readonly value: string) {}
+   *   [KeyPath.serialize]() {
+   *     return this.value;
+   *   }
+   * }
+   * ```
+   */
+  export const serialize = Symbol("KeyPath.serialize");
+
+  /** Prefix of components representing keys by identity */
+  const identityPrefix = "@@";
+  /**
+   * Prefix of components representing registered symbols (`Symbol.for()`)
+   *
+   * Labels of identities never start with `@` since they are escaped.
+   */
+  const registeredSymbolPrefix = "@@@";
+  /** Keys encoded by identity */
+  const identityComponents = new WeakMap<symbol | object, Component>();
+  /** Components decoded into keys by identity, pruned when the keys are garbage collected */
+  const componentIdentities = new Map<string, WeakRef<symbol | object>>();
+  const identityRegistry = new FinalizationRegistry<string>((component) => {
+    componentIdentities.delete(component);
+  });
+  let nextIdentity = 1;
+
+  /**
+   * Encode a key as a key path component
+   *
+   * @remarks
+   * - Strings are escaped; `\`, `.`, `*`, and a leading `@` are prefixed with `\`
+   * - Numbers and other primitives are converted to strings
+   * - Objects implementing {@link KeyPath.serialize} are encoded by their serialized values
+   * - Registered symbols (`Symbol.for()`) are encoded by their keys as `@@@<key>`
+   * - Other symbols and objects are encoded by identity as `@@<label>:<id>`,
+   *   where the label is the description of the symbol or the constructor name of the object.\
+   *   The ids are unique within the process but not stable across processes.
+   */
+  export function encodeKey(key: Key): Component {
+    switch (typeof key) {
+      case "string":
+        return key.replace(/[\\.*]|^@/g, (c) => `\\${c}`) as Component;
+      case "number":
+        return String(key) as Component;
+      case "symbol": {
+        const registeredKey = Symbol.keyFor(key);
+        if (registeredKey !== undefined) {
+          return `${registeredSymbolPrefix}${encodeKey(registeredKey)}` as Component;
+        }
+        return encodeIdentity(key, key.description ?? "");
+      }
+      case "object":
+      case "function":
+        if (key === null) break;
+        if (typeof (key as any)[serialize] === "function") {
+          return encodeKey((key as any)[serialize]());
+        }
+        return encodeIdentity(key, key.constructor?.name ?? "");
+    }
+    return encodeKey(String(key)); // e.g., booleans and null keys of maps
+  }
+
+  function encodeIdentity(key: symbol | object, label: string) {
+    let component = identityComponents.get(key);
+    if (!component) {
+      component = `${identityPrefix}${encodeKey(label)}:${nextIdentity++}` as Component;
+      identityComponents.set(key, component);
+      componentIdentities.set(component, new WeakRef(key));
+      identityRegistry.register(key, component);
+    }
+    return component;
+  }
+
+  /**
+   * Decode a key path component into a key
+   *
+   * @returns
+   * - The registered symbol if the component was encoded from `Symbol.for()`
+   * - The symbol or the object if the component was encoded by identity and it is still alive
+   * - The unescaped string otherwise (numbers are not restored)
+   */
+  export function decodeKey(component: string): string | symbol | object {
+    if (component.startsWith(registeredSymbolPrefix)) {
+      return Symbol.for(unescapeComponent(component.slice(registeredSymbolPrefix.length)));
+    }
+    if (component.startsWith(identityPrefix)) {
+      const key = componentIdentities.get(component)?.deref();
+      if (key !== undefined) return key;
+    }
+    return unescapeComponent(component);
+  }
+
+  function unescapeComponent(component: string) {
+    return component.replace(/\\(.)/g, "$1");
+  }
+
+  /** @internal @ignore */
+  export function debugIdentityCount() {
+    return componentIdentities.size;
+  }
+
+  /**
+   * Split a key path into components
+   *
+   * Components are kept encoded; see {@link KeyPath.components} to get the keys.
+   *
+   * @returns An empty array for {@link KeyPath.Self}
+   */
+  export function split(keyPath: KeyPath): Component[] {
+    if (isSelf(keyPath)) return [];
+    const result: Component[] = [];
+    let component = "";
+    for (let i = 0; i < keyPath.length; i++) {
+      const c = keyPath[i];
+      if (c === "\\") {
+        component += c + (keyPath[++i] ?? "");
+      } else if (c === ".") {
+        result.push(component as Component);
+        component = "";
+      } else {
+        component += c;
+      }
+    }
+    result.push(component as Component);
+    return result;
+  }
+
+  /**
+   * Get the keys of a key path
+   *
+   * Inverse of {@link KeyPath.fromKeys}.
+   *
+   * @returns The decoded keys, or an empty array for {@link KeyPath.Self}
+   */
+  export function components(keyPath: KeyPath): (string | symbol | object)[] {
+    return split(keyPath).map(decodeKey);
+  }
+
+  /**
+   * Build a key path from keys
+   *
+   * Unlike {@link KeyPath.build}, strings are treated as keys rather than key paths, so they are escaped.
+   */
+  export function fromKeys(keys: readonly Key[]): KeyPath {
+    return build(...keys.map(encodeKey));
+  }
+
   /**
    * Whether a key path is a self path
    *
@@ -24,6 +193,67 @@ export namespace KeyPath {
     return keyPath === Self || keyPath === "";
   }
 
+  /**
+   * Get a type-safe key path builder for the type
+   *
+   * @example
+   * ```typescript
+   * KeyPath.of<Sample>()("items", 0, "name") // "items.0.name"
+   * KeyPath.of<Sample>()("items", 0, "nmae") // Type error
+   * ```
+   *
+   * @remarks
+   * Methods taking key paths accept the built key paths as they are,
+   * so the types of the targets are not expanded unless the builder is used.
+   */
+  export function of<T>() {
+    return <const Keys extends readonly [Key, ...Key[]]>(
+      ...keys: Keys extends CheckKeys<T, Keys> ? Keys : CheckKeys<T, Keys>
+    ) => fromKeys(keys as readonly Key[]);
+  }
+
+  /**
+   * Check the keys to reach a nested value of the type
+   *
+   * Resolves to the keys themselves if they are valid.
+   * Otherwise, the first invalid key is replaced with the keys accepted at its position.
+   *
+   * @remarks
+   * - Arrays and sets are indexed by numbers, and maps by their keys
+   * - Boxed observables are unwrapped
+   * - Methods are excluded
+   * - Only the types along the keys are resolved, so the cost grows with the number of keys,
+   *   not with the size or the recursion of the type
+   */
+  export type CheckKeys<T, Keys extends readonly unknown[]> =
+    IsAny<T> extends true
+      ? Keys
+      : Keys extends readonly [infer K, ...infer Rest]
+        ? [K] extends [ChildKey<T>]
+          ? [K, ...CheckKeys<ChildValue<T, K>, Rest>]
+          : [ChildKey<T>, ...Rest]
+        : [];
+
+  type IsAny<T> = 0 extends 1 & T ? true : false;
+  type Leaf = string | number | boolean | bigint | symbol | null | undefined | Date | ((...args: any[]) => any);
+  /** Pairs of keys and values of the children */
+  type Child<T> = T extends Leaf
+    ? never
+    : T extends IObservableValue<infer V>
+      ? Child<V>
+      : T extends readonly (infer E)[]
+        ? [number, E]
+        : T extends ReadonlyMap<infer K, infer V>
+          ? [K, V]
+          : T extends ReadonlySet<infer E>
+            ? [number, E]
+            : { [K in keyof T]-?: T[K] extends (...args: any[]) => any ? never : [K, T[K]] }[keyof T];
+  /** Keys of the children */
+  type ChildKey<T> = Child<T> extends infer C ? (C extends [infer K, unknown] ? K : never) : never;
+  /** Values of the children for the key */
+  type ChildValue<T, K> =
+    Child<T> extends infer C ? (C extends [infer CK, infer V] ? (K extends CK ? V : never) : never) : never;
+
   /**
    * Build a key path from an array of keys
    *
@@ -32,10 +262,13 @@ export namespace KeyPath {
    * - Ignores null values
    * - Ignores empty strings
    * - Handles {@link KeyPath.Self}
+   * - Encodes numbers and other symbols with {@link KeyPath.encodeKey}
+   * - Strings are joined as-is since they are treated as key paths;\
+   *   use {@link KeyPath.fromKeys} or {@link KeyPath.encodeKey} for keys that may contain dots
    *
    * @returns The constructed key path
    */
-  export function build(...keys: (KeyPath | string | number | null)[]): KeyPath {
+  export function build(...keys: (KeyPath | string | number | symbol | null)[]): KeyPath {
     const keyPath = keys
       .flatMap((key) => {
         switch (typeof key) {
@@ -43,9 +276,10 @@ export namespace KeyPath {
             if (key === "") return []; // ignores empty keys
             return [key];
           case "number":
-            return [String(key)];
+            return [encodeKey(key)];
           case "symbol":
-            return []; // ignores KeyPath.Self
+            if (key === Self) return []; // ignores KeyPath.Self
+            return [encodeKey(key)];
           default:
             key satisfies null;
             return [];
@@ -71,6 +305,17 @@ export namespace KeyPath {
     return build(keyPath.slice(prefixKeyPath.length + 1));
   }
 
+  /**
+   * Whether a key path is the ancestor key path itself or under it
+   *
+   * Every key path is under {@link KeyPath.Self}.
+   */
+  export function isUnder(keyPath: KeyPath, ancestorKeyPath: KeyPath): boolean {
+    if (isSelf(ancestorKeyPath)) return true;
+    if (isSelf(keyPath)) return false;
+    return getRelative(keyPath, ancestorKeyPath) !== null;
+  }
+
   /**
    * Get the parent key of a key path
    *
@@ -78,8 +323,71 @@ export namespace KeyPath {
    */
   export function getParentKey(keyPath: KeyPath): KeyPath {
     if (isSelf(keyPath)) return Self;
-    const [parentKey] = keyPath.split(".", 1);
-    return (parentKey as Component) || Self;
+    const [parentKey] = split(keyPath);
+    return parentKey || Self;
+  }
+
+  /**
+   * Convert a key path to a JSON Pointer ([RFC 6901](https://datatracker.ietf.org/doc/html/rfc6901))
+   *
+   * @returns
+   * - An empty string for {@link KeyPath.Self}
+   * - Slash-separated keys with `~` and `/` escaped otherwise.\
+   *   String keys are unescaped, and keys encoded by identity are kept encoded.
+   */
+  export function toJsonPointer(keyPath: KeyPath): string {
+    return split(keyPath)
+      .map((component) => {
+        const key = decodeKey(component);
+        const token = typeof key === "string" ? key : component;
+        return `/${token.replace(/~/g, "~0").replace(/\//g, "~1")}`;
+      })
+      .join("");
+  }
+
+  /** Component of patterns matching exactly one component */
+  export const Wildcard = "*" as Component;
+  /** Component of patterns matching zero or more components */
+  export const GlobStar = "**" as Component;
+
+  /**
+   * Whether a key path is a pattern containing {@link KeyPath.Wildcard} or {@link KeyPath.GlobStar}
+   *
+   * Escaped `*` in keys are not considered wildcards.
+   */
+  export function isPattern(keyPath: KeyPath): boolean {
+    return split(keyPath).some((component) => component === Wildcard || component === GlobStar);
+  }
+
+  /**
+   * Whether a key path matches a pattern
+   *
+   * @example
+   * ```typescript
+   * KeyPath.match("items.0.name", "items.*.name") // true
+   * KeyPath.match("address.city.name", "address.**") // true
+   * ```
+   *
+   * @remarks
+   * - `*` matches exactly one component
+   * - `**` matches zero or more components
+   * - Other components match themselves, so key paths without wildcards match themselves
+   *
+   * @param prefixMatch Whether to match key paths under the matching key paths as well
+   */
+  export function match(keyPath: KeyPath, pattern: KeyPath, prefixMatch = false): boolean {
+    const components = split(keyPath);
+    const patternComponents = split(pattern);
+    const matchFrom = (i: number, j: number): boolean => {
+      if (j === patternComponents.length) return prefixMatch || i === components.length;
+      if (patternComponents[j] === GlobStar) {
+        return matchFrom(i, j + 1) || (i < components.length && matchFrom(i + 1, j));
+      }
+      if (i === components.length) return false;
+      if (patternComponents[j] !== Wildcard && patternComponents[j] !== components[i]) return false;
+      return matchFrom(i + 1, j + 1);
+    };
+    return matchFrom(0, 0);
   }
 
   /**
@@ -98,12 +406,194 @@ export namespace KeyPath {
     if (isSelf(keyPath)) {
       return;
     }
-    const parts = keyPath.split(".");
+    const parts = split(keyPath);
     while (parts.length > 1) {
       parts.pop();
       yield build(...parts);
     }
   }
+
+  /** Function to key elements of a collection (see `@nested.keyed`) */
+  type KeyOf = (element: any) => Key;
+
+  /** Find the function to key elements of the collection at a key of the owner */
+  let keyOfResolver: (owner: object, key: string | symbol) => KeyOf | null = () => null;
+
+  /**
+   * Set the function to find `@nested.keyed` annotations
+   *
+   * Set by the module of `@nested`, which depends on this module.
+   *
+   * @internal @ignore
+   */
+  export function setKeyOfResolver(resolver: typeof keyOfResolver) {
+    keyOfResolver = resolver;
+  }
+
+  /**
+   * Read the value at a key path
+   *
+   * @example
+   * ```typescript
+   * KeyPath.get(order, "items.0.price") // order.items[0].price
+   * ```
+   *
+   * @remarks
+   * Values are traversed in the same way as `@nested` collects nested objects:
+   * - Boxed observables are unwrapped
+   * - Arrays are indexed by numbers
+   * - Sets are indexed by the iteration order
+   * - Maps are looked up by the encoded keys (see {@link KeyPath.encodeKey})
+   * - Elements of collections annotated with `@nested.keyed` are looked up by their keys as well
+   * - Other objects are looked up by the decoded keys (see {@link KeyPath.decodeKey})
+   *
+   * @returns The value, or `undefined` if the key path does not exist
+   */
+  export function get(target: unknown, keyPath: KeyPath): unknown {
+    let value: unknown = target;
+    let keyOf: KeyOf | null = null;
+    for (const component of split(keyPath)) {
+      const parent = unbox(value);
+      value = getChild(parent, resolveKeyed(parent, component, keyOf));
+      keyOf = findKeyOf(parent, component);
+    }
+    return unbox(value);
+  }
+
+  /**
+   * Write a value at a key path
+   *
+   * @example
+   * ```typescript
+   * KeyPath.set(order, "items.0.price", 100) // order.items[0].price = 100
+   * ```
+   *
+   * @remarks
+   * - Values are traversed in the same way as {@link KeyPath.get}
+   * - Boxed observables at the key path are written through
+   * - Elements of sets are replaced in place, keeping the iteration order
+   * - Runs in an action
+   *
+   * @throws `TypeError` if the key path is a self path or its parent does not exist
+   */
+  export function set(target: unknown, keyPath: KeyPath, value: unknown): void {
+    const components = split(keyPath);
+    const component = components.pop();
+    if (component === undefined) {
+      throw new TypeError("keyPath: Cannot set a value at the self path");
+    }
+    let parent: unknown = target;
+    let keyOf: KeyOf | null = null;
+    for (const parentComponent of components) {
+      const owner = unbox(parent);
+      parent = getChild(owner, resolveKeyed(owner, parentComponent, keyOf));
+      keyOf = findKeyOf(owner, parentComponent);
+    }
+    parent = unbox(parent);
+    if (!parent || typeof parent !== "object") {
+      throw new TypeError(`keyPath: Cannot set a value at ${String(keyPath)}`);
+    }
+    runInAction(() => setChild(parent, resolveKeyed(parent, component, keyOf), value));
+  }
+
+  /** Find the function to key elements of the collection at the component of the owner */
+  function findKeyOf(owner: unknown, component: Component) {
+    if (!owner || typeof owner !== "object") return null;
+    const key = decodeKey(component);
+    return typeof key === "string" || typeof key === "symbol" ? keyOfResolver(owner, key) : null;
+  }
+
+  /**
+   * Translate a component keyed by the function into the index or the map key of the element
+   *
+   * Elements without keys are addressed by their indices or map keys, same as `@nested.keyed`.
+   */
+  function resolveKeyed(value: unknown, component: Component, keyOf: KeyOf | null): Component {
+    if (!keyOf || !value || typeof value !== "object") return component;
+    let entries: Iterable<[unknown, unknown]>;
+    if (value instanceof Map || isObservableMap(value)) {
+      entries = value.entries();
+    } else if (Array.isArray(value) || isObservableArray(value) || value instanceof Set || isObservableSet(value)) {
+      entries = Array.from(value as Iterable<unknown>).entries();
+    } else {
+      return component;
+    }
+    for (const [key, element] of entries) {
+      if (element === null || element === undefined) continue;
+      if (encodeKey(keyOf(element)) === component) return encodeKey(key as Key);
+    }
+    return component;
+  }
+
+  function unbox(value: unknown) {
+    return isBoxedObservable(value) ? value.get() : value;
+  }
+
+  function toIndex(component: Component) {
+    return /^(0|[1-9]\d*)$/.test(component) ? Number(component) : null;
+  }
+
+  function findMapKey(map: Map<unknown, unknown>, component: Component) {
+    const key = decodeKey(component);
+    if (map.has(key)) return key;
+    for (const mapKey of map.keys()) {
+      if (encodeKey(mapKey as Key) === component) return mapKey;
+    }
+    return key;
+  }
+
+  function getChild(value: unknown, component: Component): unknown {
+    if (!value || typeof value !== "object") return undefined;
+    if (Array.isArray(value) || isObservableArray(value)) {
+      const index = toIndex(component);
+      return index === null ? undefined : value[index];
+    }
+    if (value instanceof Set || isObservableSet(value)) {
+      const index = toIndex(component);
+      return index === null ? undefined : Array.from(value)[index];
+    }
+    if (value instanceof Map || isObservableMap(value)) {
+      return value.get(findMapKey(value, component));
+    }
+    return (value as Record<string | symbol, unknown>)[decodeKey(component) as string | symbol];
+  }
+
+  function setChild(value: object, component: Component, content: unknown) {
+    if (Array.isArray(value) || isObservableArray(value)) {
+      const index = toIndex(component);
+      if (index === null) throw new TypeError(`keyPath: Expected an index of the array: ${component}`);
+      value[index] = content;
+      return;
+    }
+    if (value instanceof Set || isObservableSet(value)) {
+      const index = toIndex(component);
+      const elements = Array.from(value);
+      if (index === null || index >= elements.length) {
+        throw new TypeError(`keyPath: Expected an index of the set: ${component}`);
+      }
+      elements[index] = content;
+      value.clear();
+      elements.forEach((element) => value.add(element));
+      return;
+    }
+    if (value instanceof Map || isObservableMap(value)) {
+      const key = findMapKey(value, component);
+      const current = value.get(key);
+      if (isBoxedObservable(current)) {
+        current.set(content);
+      } else {
+        value.set(key, content);
+      }
+      return;
+    }
+    const key = decodeKey(component) as string | symbol;
+    const current = (value as Record<string | symbol, unknown>)[key];
+    if (isBoxedObservable(current)) {
+      current.set(content);
+    } else {
+      (value as Record<string | symbol, unknown>)[key] = content;
+    }
+  }
 }
 
 /**
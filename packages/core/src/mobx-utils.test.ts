@@ -1,5 +1,15 @@
 import { observable, reaction, runInAction, makeObservable, computed, action } from "mobx";
-import { getMobxObservableAnnotations, shallowReadValue, unwrapShallowContents } from "./mobx-utils";
+import {
+  getMobxObservableAnnotations,
+  isRecord,
+  shallowEquals,
+  shallowReadRecord,
+  shallowReadValue,
+  shallowWriteRecord,
+  shallowWriteValue,
+  unwrapRecordContents,
+  unwrapShallowContents,
+} from "./mobx-utils";
 
 describe("shallowReadValue", () => {
   test("changes to the content of boxed observables can be observed", () => {
@@ -65,6 +75,74 @@ describe("shallowReadValue", () => {
   });
 });
 
+describe("shallowWriteValue", () => {
+  test("writes the content of boxed observables", () => {
+    const obj = observable.box(0);
+    expect(shallowWriteValue(obj, 1)).toBe(true);
+    expect(obj.get()).toBe(1);
+  });
+
+  test("replaces elements of observable arrays", () => {
+    const arr = observable.array([0]);
+    expect(shallowWriteValue(arr, [1, 2])).toBe(true);
+    expect(arr.slice()).toEqual([1, 2]);
+  });
+
+  test("replaces values of observable sets", () => {
+    const set = observable.set([0]);
+    expect(shallowWriteValue(set, new Set([1, 2]))).toBe(true);
+    expect(new Set(set)).toEqual(new Set([1, 2]));
+  });
+
+  test("replaces entries of observable maps", () => {
+    const map = observable.map([["key", 0]]);
+    expect(shallowWriteValue(map, new Map([["other", 1]]))).toBe(true);
+    expect(new Map(map)).toEqual(new Map([["other", 1]]));
+  });
+
+  test("does not write other values", () => {
+    expect(shallowWriteValue(observable({ value: 0 }), { value: 1 })).toBe(false);
+    expect(shallowWriteValue([0], [1])).toBe(false);
+    expect(shallowWriteValue(observable.array([0]), new Set([1]))).toBe(false);
+  });
+});
+
+describe("shallowEquals", () => {
+  test("compares primitives and objects by identity", () => {
+    const obj = { value: 0 };
+    expect(shallowEquals(1, 1)).toBe(true);
+    expect(shallowEquals(NaN, NaN)).toBe(true);
+    expect(shallowEquals(1, 2)).toBe(false);
+    expect(shallowEquals(obj, obj)).toBe(true);
+    expect(shallowEquals(obj, { value: 0 })).toBe(false);
+  });
+
+  test("compares arrays by their elements", () => {
+    const obj = { value: 0 };
+    expect(shallowEquals([1, obj], [1, obj])).toBe(true);
+    expect(shallowEquals([1, obj], [1, { value: 0 }])).toBe(false);
+    expect(shallowEquals([1], [1, 2])).toBe(false);
+  });
+
+  test("compares sets by their elements", () => {
+    expect(shallowEquals(new Set([1, 2]), new Set([2, 1]))).toBe(true);
+    expect(shallowEquals(new Set([1, 2]), new Set([1, 3]))).toBe(false);
+    expect(shallowEquals(new Set([1]), new Set([1, 2]))).toBe(false);
+  });
+
+  test("compares maps by their entries", () => {
+    expect(shallowEquals(new Map([["a", 1]]), new Map([["a", 1]]))).toBe(true);
+    expect(shallowEquals(new Map([["a", 1]]), new Map([["a", 2]]))).toBe(false);
+    expect(shallowEquals(new Map([["a", 1]]), new Map([["b", 1]]))).toBe(false);
+    expect(shallowEquals(new Map([["a", 1]]), new Map())).toBe(false);
+  });
+
+  test("does not compare values of different types", () => {
+    expect(shallowEquals([1], new Set([1]))).toBe(false);
+    expect(shallowEquals(new Map(), new Set())).toBe(false);
+  });
+});
+
 describe("unwrapShallowContents", () => {
   test("unwraps boxed observables", () => {
     const obj = observable.box(123);
@@ -125,6 +203,100 @@ describe("unwrapShallowContents", () => {
   });
 });
 
+describe("isRecord", () => {
+  test("returns true for plain and observable objects", () => {
+    expect(isRecord({})).toBe(true);
+    expect(isRecord(Object.create(null))).toBe(true);
+    expect(isRecord(observable({}))).toBe(true);
+  });
+
+  test("returns false for other values", () => {
+    class Sample {}
+    expect(isRecord(new Sample())).toBe(false);
+    expect(isRecord([])).toBe(false);
+    expect(isRecord(new Map())).toBe(false);
+    expect(isRecord(null)).toBe(false);
+    expect(isRecord("a")).toBe(false);
+  });
+});
+
+describe("shallowReadRecord", () => {
+  test("reads records as maps", () => {
+    expect(shallowReadRecord({ a: 1, b: 2 })).toEqual(
+      new Map([
+        ["a", 1],
+        ["b", 2],
+      ])
+    );
+    expect(shallowReadRecord(observable.box({ a: 1 }))).toEqual(new Map([["a", 1]]));
+  });
+
+  test("reads other values by shallowReadValue", () => {
+    expect(shallowReadRecord(observable.array([1]))).toEqual([1]);
+  });
+
+  test("tracks added and removed keys of observable objects", () => {
+    const record = observable<Record<string, number>>({ a: 1 });
+    const values: Map<string, number>[] = [];
+    const dispose = reaction(
+      () => shallowReadRecord(record),
+      (value) => values.push(value)
+    );
+    runInAction(() => (record.b = 2));
+    runInAction(() => delete record.a);
+    dispose();
+    expect(values).toEqual([
+      new Map([
+        ["a", 1],
+        ["b", 2],
+      ]),
+      new Map([["b", 2]]),
+    ]);
+  });
+});
+
+describe("shallowWriteRecord", () => {
+  test("replaces entries of records", () => {
+    const record: Record<string, number> = { a: 1, b: 2 };
+    expect(shallowWriteRecord(record, new Map([["c", 3]]))).toBe(true);
+    expect(record).toEqual({ c: 3 });
+
+    const observableRecord = observable<Record<string, number>>({ a: 1 });
+    runInAction(() => expect(shallowWriteRecord(observableRecord, new Map([["b", 2]]))).toBe(true));
+    expect(observableRecord).toEqual({ b: 2 });
+  });
+
+  test("replaces records in boxed observables", () => {
+    const box = observable.box<Record<string, number>>({ a: 1 });
+    expect(shallowWriteRecord(box, new Map([["b", 2]]))).toBe(true);
+    expect(box.get()).toEqual({ b: 2 });
+  });
+
+  test("writes other values by shallowWriteValue", () => {
+    const arr = observable.array([0]);
+    expect(shallowWriteRecord(arr, [1])).toBe(true);
+    expect(arr.slice()).toEqual([1]);
+    expect(shallowWriteRecord({ a: 1 }, { a: 2 })).toBe(false);
+  });
+});
+
+describe("unwrapRecordContents", () => {
+  test("unwraps entries of records", () => {
+    expect(Array.from(unwrapRecordContents(observable({ a: 1, b: 2 })))).toEqual([
+      ["a", 1],
+      ["b", 2],
+    ]);
+    expect(Array.from(unwrapRecordContents(observable.box({ a: 1 })))).toEqual([["a", 1]]);
+  });
+
+  test("unwraps other values by unwrapShallowContents", () => {
+    class Sample {}
+    const sample = new Sample();
+    expect(Array.from(unwrapRecordContents([11]))).toEqual([[0, 11]]);
+    expect(Array.from(unwrapRecordContents(sample))).toEqual([[null, sample]]);
+  });
+});
+
 describe("getMobxObservableAnnotations", () => {
   class Sample {
     @observable field1 = 123;
@@ -4,6 +4,9 @@ import {
   isObservableSet,
   isObservableMap,
   isObservableObject,
+  keys,
+  remove,
+  set,
   $mobx,
 } from "mobx";
 import type { ObservableObjectAdministration } from "mobx/dist/internal";
@@ -36,6 +39,68 @@ export function shallowReadValue(value: any) {
   return value;
 }
 
+/**
+ * Write the content read by {@link shallowReadValue} back to the value if applicable
+ *
+ * Supports:
+ * - boxed observables
+ * - observable arrays
+ * - observable sets
+ * - observable maps
+ *
+ * @returns Whether the content has been written
+ */
+export function shallowWriteValue(value: any, content: any): boolean {
+  if (isBoxedObservable(value)) {
+    value.set(content);
+    return true;
+  }
+  if (isObservableArray(value) && Array.isArray(content)) {
+    value.replace(content);
+    return true;
+  }
+  if (isObservableSet(value) && content instanceof Set) {
+    value.replace(content);
+    return true;
+  }
+  if (isObservableMap(value) && content instanceof Map) {
+    value.replace(content);
+    return true;
+  }
+  return false;
+}
+
+/**
+ * Compare two values read by {@link shallowReadValue}
+ *
+ * - Arrays, sets, and maps are compared by their elements with identity comparison
+ * - Other values are compared by identity
+ */
+export function shallowEquals(a: any, b: any): boolean {
+  if (Object.is(a, b)) return true;
+
+  if (Array.isArray(a) && Array.isArray(b)) {
+    if (a.length !== b.length) return false;
+    return a.every((element, i) => Object.is(element, b[i]));
+  }
+  if (a instanceof Set && b instanceof Set) {
+    if (a.size !== b.size) return false;
+    for (const element of a) {
+      if (!b.has(element)) return false;
+    }
+    return true;
+  }
+  if (a instanceof Map && b instanceof Map) {
+    if (a.size !== b.size) return false;
+    for (const [key, element] of a) {
+      if (!b.has(key) || !Object.is(element, b.get(key))) return false;
+    }
+    return true;
+  }
+
+  return false;
+}
+
 /**
  * Unwrap shallow contents of the value if applicable
  *
@@ -73,6 +138,80 @@ export function* unwrapShallowContents(value: any): Generator<[key: string | sym
   yield [null, value];
 }
 
+/**
+ * Whether the value is a record, i.e., a plain or observable object with dynamic keys
+ *
+ * Instances of classes are not records.
+ */
+export function isRecord(value: any): value is Record<string, any> {
+  if (!value || typeof value !== "object") return false;
+  const proto = Object.getPrototypeOf(value);
+  return proto === Object.prototype || proto === null;
+}
+
+/** Get the keys of a record, tracking additions and removals for observable objects */
+function recordKeys(value: Record<string, any>): string[] {
+  return isObservableObject(value) ? (keys(value) as string[]) : Object.keys(value);
+}
+
+/**
+ * Shallow read the content of the value like {@link shallowReadValue},
+ * but read records as maps of their entries
+ */
+export function shallowReadRecord(value: any) {
+  if (isBoxedObservable(value)) {
+    value = value.get();
+  }
+  if (isRecord(value)) {
+    return new Map(recordKeys(value).map((key) => [key, value[key]]));
+  }
+  return shallowReadValue(value);
+}
+
+/**
+ * Write the content read by {@link shallowReadRecord} back to the value if applicable
+ *
+ * @returns Whether the content has been written
+ */
+export function shallowWriteRecord(value: any, content: any): boolean {
+  if (isBoxedObservable(value) && isRecord(value.get()) && content instanceof Map) {
+    value.set(Object.fromEntries(content));
+    return true;
+  }
+  if (!isRecord(value) || !(content instanceof Map)) {
+    return shallowWriteValue(value, content);
+  }
+  const observable = isObservableObject(value);
+  for (const key of recordKeys(value)) {
+    if (content.has(key)) continue;
+    if (observable) remove(value, key);
+    else delete value[key];
+  }
+  for (const [key, element] of content) {
+    if (observable) set(value, key, element);
+    else value[key] = element;
+  }
+  return true;
+}
+
+/**
+ * Unwrap entries of the record like {@link unwrapShallowContents}
+ *
+ * Values other than records are unwrapped by {@link unwrapShallowContents}.
+ */
+export function* unwrapRecordContents(value: any): Generator<[key: string | symbol | number | null, content: any]> {
+  if (isBoxedObservable(value)) {
+    value = value.get();
+  }
+  if (isRecord(value)) {
+    for (const key of recordKeys(value)) {
+      yield [key, value[key]];
+    }
+    return;
+  }
+  yield* unwrapShallowContents(value);
+}
+
 /**
  * Get all MobX's `@observable` and `@computed` annotations from the target object
  *
@@ -1,5 +1,5 @@
-import { autorun, makeObservable, observable, runInAction } from "mobx";
-import { getNestedAnnotations, nested, StandardNestedFetcher } from "./nested";
+import { autorun, makeObservable, observable, reaction, runInAction } from "mobx";
+import { getNestedAnnotations, nested, NestedCycleError, NestedTraversal, StandardNestedFetcher } from "./nested";
 import { KeyPath } from "./keyPath";
 
 const symbolKey1 = Symbol("key1");
@@ -122,6 +122,22 @@ describe("getNestedAnnotations", () => {
     }
   });
 
+  it("returns the key function of @nested.keyed", () => {
+    const keyOf = (element: { id: string }) => element.id;
+    class Sample {
+      @nested.keyed(keyOf) list = [{ id: "a" }];
+      @nested other = {};
+    }
+    const sample = new Sample();
+    const annotations = new Map(Array.from(getNestedAnnotations(sample), (a) => [a.key, a.keyOf]));
+    expect(annotations).toEqual(
+      new Map<string, unknown>([
+        ["list", keyOf],
+        ["other", null],
+      ])
+    );
+  });
+
   it("throws an error if mixed @nested annotations are found for the same key", () => {
     class Sample {
       @nested @nested.hoist hoist1 = [0];
@@ -164,7 +180,7 @@ describe("getNestedAnnotations", () => {
 
 describe("StandardNestedFetcher", () => {
   describe("iterator", () => {
-    it("returns all nested entries except for symbol keys", () => {
+    it("returns all nested entries", () => {
       const sample = new Sample();
       const fetcher = new StandardNestedFetcher(sample, (entry) => entry.data);
 
@@ -211,8 +227,156 @@ describe("StandardNestedFetcher", () => {
       expect(map.get("refOtherMap1.key1" as KeyPath)).toEqual(sample.refOtherMap1.get("key1"));
 
       expect(map.get("0" as KeyPath)).toEqual(sample.hoist1[0]); // "hoist1.0" lifted to "0"
+      expect(map.get(KeyPath.build(symbolKey1))).toEqual(sample[symbolKey1]);
+
+      expect(map.size).toBe(38);
+    });
+
+    it("encodes symbol keys of maps", () => {
+      const mapKey = Symbol("mapKey");
+      class Sample {
+        @nested @observable map = new Map([[mapKey, { value: 0 }]]);
+
+        constructor() {
+          makeObservable(this);
+        }
+      }
+      const sample = new Sample();
+      const fetcher = new StandardNestedFetcher(sample, (entry) => entry.data);
+      expect(fetcher.dataMap.get(KeyPath.build("map", mapKey))).toBe(sample.map.get(mapKey));
+    });
+
+    it("escapes keys of maps", () => {
+      class Sample {
+        @nested @observable map = new Map([["a.b@example.com", { value: 0 }]]);
+
+        constructor() {
+          makeObservable(this);
+        }
+      }
+      const sample = new Sample();
+      const fetcher = new StandardNestedFetcher(sample, (entry) => entry.data);
+      expect(Array.from(fetcher.dataMap.keys())).toEqual(["map.a\\.b@example\\.com"]);
+      expect(fetcher.dataMap.get(KeyPath.fromKeys(["map", "a.b@example.com"]))).toBe(sample.map.get("a.b@example.com"));
+    });
+
+    it("keys entries of maps by object identity or serialized values", () => {
+      class Id {
+        constructor(readonly value: number) {}
+        [KeyPath.serialize]() {
+          return `id${this.value}`;
+        }
+      }
+      const objectKey = {};
+      class Sample {
+        @nested @observable map1 = new Map([[objectKey, { value: 0 }]]);
+        @nested @observable map2 = new Map([[new Id(1), { value: 0 }]]);
+
+        constructor() {
+          makeObservable(this);
+        }
+      }
+      const sample = new Sample();
+      const fetcher = new StandardNestedFetcher(sample, (entry) => entry.data);
+      expect(fetcher.dataMap.get(KeyPath.fromKeys(["map1", objectKey]))).toBe(sample.map1.get(objectKey));
+      expect(fetcher.dataMap.get("map2.id1" as KeyPath)).toBeDefined();
+    });
+
+    it("keys elements by the function of @nested.keyed", () => {
+      class Item {
+        constructor(readonly id: string) {}
+      }
+      class Sample {
+        @nested.keyed((item: Item) => item.id) @observable array = [new Item("a"), new Item("b.c")];
+        @nested.keyed((item: Item) => item.id) @observable set = new Set([new Item("d")]);
+        @nested.keyed((item: Item) => item.id) @observable map = new Map([["key", new Item("e")]]);
+        @nested.keyed((item: Item) => item.id) @observable single = new Item("f");
+
+        constructor() {
+          makeObservable(this);
+        }
+      }
+      const sample = new Sample();
+      const fetcher = new StandardNestedFetcher(sample, (entry) => entry.data);
+      expect(Array.from(fetcher, (entry) => [entry.keyPath, entry.rawKeyPath])).toEqual([
+        ["array.a", "array.0"],
+        ["array.b\\.c", "array.1"],
+        ["set.d", "set.0"],
+        ["map.e", "map.key"],
+        ["single", "single"],
+      ]);
+
+      runInAction(() => sample.array.reverse());
+      expect(fetcher.dataMap.get("array.a" as KeyPath)).toBe(sample.array[1]);
+      expect(fetcher.dataMap.get(KeyPath.fromKeys(["array", "b.c"]))).toBe(sample.array[0]);
+    });
 
-      expect(map.size).toBe(37);
+    describe("with duplicate keys of @nested.keyed", () => {
+      class Item {
+        constructor(readonly id: string) {}
+      }
+      class Sample {
+        @nested.keyed((item: Item) => item.id) @observable array = [new Item("a"), new Item("b"), new Item("a")];
+
+        constructor() {
+          makeObservable(this);
+        }
+      }
+
+      afterEach(() => {
+        vi.unstubAllEnvs();
+        vi.restoreAllMocks();
+      });
+
+      it("warns once per collection and key path", () => {
+        const warn = vi.spyOn(console, "warn").mockImplementation(() => {});
+        const sample = new Sample();
+        const fetcher = new StandardNestedFetcher(sample, (entry) => entry.data);
+        expect(fetcher.dataMap.size).toBe(2);
+        expect(warn).toHaveBeenCalledTimes(1);
+        expect(warn.mock.calls[0][0]).toMatch(/^@nested\.keyed: .*"array\.a"/);
+
+        void new StandardNestedFetcher(sample, (entry) => entry.data).dataMap;
+        expect(warn).toHaveBeenCalledTimes(1);
+
+        runInAction(() => sample.array.push(new Item("b")));
+        void fetcher.dataMap;
+        expect(warn).toHaveBeenCalledTimes(2);
+        expect(warn.mock.calls[1][0]).toMatch(/"array\.b"/);
+      });
+
+      it("does not warn in production", () => {
+        vi.stubEnv("NODE_ENV", "production");
+        const warn = vi.spyOn(console, "warn").mockImplementation(() => {});
+        const fetcher = new StandardNestedFetcher(new Sample(), (entry) => entry.data);
+        expect(fetcher.dataMap.size).toBe(2);
+        expect(warn).not.toHaveBeenCalled();
+      });
+    });
+
+    it("iterates entries of records with @nested.record", () => {
+      class Sample {
+        @nested.record @observable byId: Record<string, Other> = { a: new Other() };
+        @nested @observable object = { value: 0 };
+
+        constructor() {
+          makeObservable(this);
+        }
+      }
+      const sample = new Sample();
+      const fetcher = new StandardNestedFetcher(sample, (entry) => entry.data);
+      expect(fetcher.dataMap).toEqual(
+        new Map<string, unknown>([
+          ["byId.a", sample.byId.a],
+          ["object", sample.object],
+        ])
+      );
+
+      runInAction(() => {
+        sample.byId["b.c"] = new Other();
+        delete sample.byId.a;
+      });
+      expect(Array.from(fetcher.dataMap.keys())).toEqual(["byId.b\\.c", "object"]);
     });
 
     it("ignores null data", () => {
@@ -253,6 +417,7 @@ describe("StandardNestedFetcher", () => {
         {
           key: "other1",
           keyPath: "other1",
+          rawKeyPath: "other1",
           data: sample.other1,
         },
       ]);
@@ -311,5 +476,290 @@ describe("StandardNestedFetcher", () => {
       expect(data2.id).toEqual(2);
       expect(observeCount).toBe(2);
     });
+
+    class Large {
+      @nested @observable items: Other[] = [];
+
+      constructor(size: number) {
+        makeObservable(this);
+        for (let i = 0; i < size; i++) {
+          this.items.push(new Other());
+        }
+      }
+    }
+
+    it("re-fetches only the elements around a replaced one while observed", () => {
+      const large = new Large(100);
+      const transform = vi.fn((entry: StandardNestedFetcher.Entry<any>) => entry.data as Other);
+      const fetcher = new StandardNestedFetcher(large, transform);
+      const dispose = autorun(() => void fetcher.dataMap);
+      transform.mockClear();
+
+      const item = new Other();
+      runInAction(() => {
+        large.items[50] = item;
+      });
+      expect(transform.mock.calls.length).toBeGreaterThan(0);
+      expect(transform.mock.calls.length).toBeLessThan(large.items.length / 2);
+      expect(fetcher.dataMap.get("items.50" as KeyPath)).toBe(item);
+      dispose();
+    });
+
+    it("keeps the order of the entries as the elements change", () => {
+      const large = new Large(100);
+      const fetcher = new StandardNestedFetcher(large, (entry) => entry.data as Other);
+      const dispose = autorun(() => void fetcher.dataMap);
+      const expectEntries = () =>
+        expect(Array.from(fetcher.dataMap)).toEqual(large.items.map((item, i) => [`items.${i}`, item]));
+
+      runInAction(() => {
+        large.items[10] = new Other();
+      });
+      expectEntries();
+      runInAction(() => {
+        large.items.splice(40, 1);
+        large.items[70] = new Other();
+      });
+      expectEntries();
+      runInAction(() => {
+        large.items.unshift(new Other());
+        large.items.push(new Other());
+      });
+      expectEntries();
+      runInAction(() => {
+        large.items = large.items.slice(0, 20);
+      });
+      expectEntries();
+      dispose();
+    });
+  });
+
+  describe(".getParents", () => {
+    class Node {
+      @nested @observable children: Node[] = [];
+
+      constructor(children: Node[] = []) {
+        makeObservable(this);
+        this.children.push(...children);
+      }
+    }
+
+    const createFetcher = (node: Node) =>
+      new StandardNestedFetcher<Node>(node, (entry) => (entry.data instanceof Node ? entry.data : null));
+    const resolve = (target: object) => (target instanceof Node ? target : null);
+
+    it("finds the parents that have fetched the nested objects", () => {
+      const child = new Node();
+      const parent = new Node([new Node(), child]);
+      const fetcher = createFetcher(parent);
+      expect(StandardNestedFetcher.getParent(child, resolve)).toBeNull();
+
+      void fetcher.dataMap;
+      expect(StandardNestedFetcher.getParent(child, resolve)).toEqual({
+        parent,
+        target: parent,
+        keyPath: "children.1",
+      });
+      expect(StandardNestedFetcher.getParent(parent, resolve)).toBeNull();
+      expect(StandardNestedFetcher.getParent(child, () => null)).toBeNull();
+    });
+
+    it("follows the changes of the nested entries", () => {
+      const child = new Node();
+      const parent = new Node([new Node(), child]);
+      const fetcher = createFetcher(parent);
+      void fetcher.dataMap;
+
+      const results: (KeyPath | null)[] = [];
+      reaction(
+        () => StandardNestedFetcher.getParent(child, resolve)?.keyPath ?? null,
+        (keyPath) => results.push(keyPath),
+        { fireImmediately: true }
+      );
+
+      runInAction(() => {
+        parent.children.shift();
+      });
+      runInAction(() => {
+        parent.children.push(new Node());
+      });
+      runInAction(() => {
+        parent.children.shift();
+      });
+      expect(results).toEqual(["children.1", "children.0", null]);
+    });
+
+    it("notifies the observers when another parent fetches the nested objects", () => {
+      const child = new Node();
+      const parent = new Node([child]);
+      const fetcher = createFetcher(parent);
+
+      const results: (Node | null)[] = [];
+      autorun(() => {
+        results.push(StandardNestedFetcher.getParent(child, resolve)?.parent ?? null);
+      });
+      void fetcher.dataMap;
+      expect(results).toEqual([null, parent]);
+    });
+
+    it("keeps the links to all parents of shared objects", () => {
+      const child = new Node();
+      const parent1 = new Node([child]);
+      const parent2 = new Node([new Node(), child, child]);
+      const fetchers = [createFetcher(parent1), createFetcher(parent2)];
+      fetchers.forEach((fetcher) => void fetcher.dataMap);
+      expect(StandardNestedFetcher.getParent(child, resolve)).toEqual({
+        parent: parent1,
+        target: parent1,
+        keyPath: "children.0",
+      });
+      expect(StandardNestedFetcher.getParents(child, resolve).map(({ parent, keyPath }) => [parent, keyPath])).toEqual([
+        [parent1, "children.0"],
+        [parent2, "children.1"],
+        [parent2, "children.2"],
+      ]);
+
+      runInAction(() => {
+        parent1.children.unshift(new Node());
+      });
+      expect(StandardNestedFetcher.getParent(child, resolve)?.keyPath).toBe("children.1");
+
+      const resolveParent2 = (target: object) => (target === parent2 ? parent2 : null);
+      expect(StandardNestedFetcher.getParent(child, resolveParent2)?.keyPath).toBe("children.1");
+    });
+
+    it("follows replaced elements", () => {
+      const children = Array.from({ length: 100 }, () => new Node());
+      const parent = new Node(children);
+      const fetcher = createFetcher(parent);
+      const dispose = autorun(() => void fetcher.dataMap);
+
+      const child = new Node();
+      runInAction(() => {
+        parent.children[60] = child;
+      });
+      expect(StandardNestedFetcher.getParent(child, resolve)?.keyPath).toBe("children.60");
+      expect(StandardNestedFetcher.getParent(children[60], resolve)).toBeNull();
+
+      runInAction(() => {
+        parent.children.splice(0, 1);
+      });
+      expect(StandardNestedFetcher.getParent(child, resolve)?.keyPath).toBe("children.59");
+      expect(StandardNestedFetcher.getParent(children[0], resolve)).toBeNull();
+      dispose();
+    });
+
+    it("finds the parents fetched by another kind of fetcher of the same target", () => {
+      const child = new Node();
+      const parent = new Node([child]);
+      const fetchers = [createFetcher(parent), new StandardNestedFetcher(parent, (entry) => ({ node: entry.data }))];
+      fetchers.forEach((fetcher) => void fetcher.dataMap);
+
+      expect(StandardNestedFetcher.getParents(child, resolve).map((link) => link.keyPath)).toEqual(["children.0"]);
+    });
+
+    it("resolves the root and the key path from the root", () => {
+      const grandchild = new Node();
+      const child = new Node([grandchild]);
+      const root = new Node([new Node(), child]);
+      const fetchers = [root, child, grandchild].map(createFetcher);
+      fetchers.forEach((fetcher) => void fetcher.dataMap);
+
+      expect(StandardNestedFetcher.getRoot(grandchild, grandchild, resolve)).toBe(root);
+      expect(StandardNestedFetcher.getRoot(root, root, resolve)).toBe(root);
+      expect(StandardNestedFetcher.getKeyPathFromRoot(grandchild, resolve)).toBe("children.1.children.0");
+      expect(StandardNestedFetcher.getKeyPathFromRoot(root, resolve)).toBe(KeyPath.Self);
+    });
+  });
+
+  describe("Cycles", () => {
+    class Node {
+      @nested @observable children: Node[] = [];
+
+      constructor() {
+        makeObservable(this);
+      }
+    }
+
+    const createFetcher = (node: Node) =>
+      new StandardNestedFetcher<Node>(node, (entry) => (entry.data instanceof Node ? entry.data : null));
+
+    const traversal = new NestedTraversal<Node>((node) => node.children.slice());
+    const collectKeyPaths = (node: Node): KeyPath[] => {
+      const result: KeyPath[] = [];
+      for (const entry of traversal.entries(node, createFetcher(node))) {
+        result.push(entry.keyPath);
+        for (const keyPath of collectKeyPaths(entry.data)) {
+          result.push(KeyPath.build(entry.keyPath, keyPath));
+        }
+      }
+      return result;
+    };
+
+    afterEach(() => {
+      vi.unstubAllEnvs();
+    });
+
+    it("fetches nested objects referring back to ancestors", () => {
+      const node = new Node();
+      node.children.push(new Node(), node);
+      expect(Array.from(createFetcher(node), (entry) => entry.keyPath)).toEqual(["children.0", "children.1"]);
+    });
+
+    it("throws an error when a nested object refers to the target itself", () => {
+      const node = new Node();
+      node.children.push(new Node(), node);
+      expect(() => collectKeyPaths(node)).toThrow('nested: Cycle detected at "children.1"');
+    });
+
+    it("throws an error when a nested object refers back to an ancestor", () => {
+      const parent = new Node();
+      const child = new Node();
+      parent.children.push(child);
+      child.children.push(parent);
+      expect(() => collectKeyPaths(parent)).toThrow('nested: Cycle detected at "children.0.children.0"');
+    });
+
+    it("recovers after a cycle is broken", () => {
+      const parent = new Node();
+      const child = new Node();
+      parent.children.push(child);
+      child.children.push(parent);
+      expect(() => collectKeyPaths(parent)).toThrow(NestedCycleError);
+
+      runInAction(() => {
+        child.children.pop();
+      });
+      expect(collectKeyPaths(parent)).toEqual(["children.0"]);
+    });
+
+    it("skips the nested objects referring back to ancestors in production", () => {
+      vi.stubEnv("NODE_ENV", "production");
+      const parent = new Node();
+      const child = new Node();
+      parent.children.push(child, parent);
+      child.children.push(parent);
+      expect(collectKeyPaths(parent)).toEqual(["children.0"]);
+      expect(
+        traversal.visit(parent, "children.1" as KeyPath, () => traversal.visit(parent, KeyPath.Self, () => 1))
+      ).toBe(undefined);
+    });
+
+    it("does not treat shared nested objects as cycles", () => {
+      const shared = new Node();
+      const parent = new Node();
+      const child = new Node();
+      child.children.push(shared);
+      parent.children.push(child, shared, shared);
+      const fetchers = [parent, child].map(createFetcher);
+      fetchers.forEach((fetcher) => void fetcher.dataMap);
+
+      expect(collectKeyPaths(parent)).toEqual(["children.0", "children.0.children.0", "children.1", "children.2"]);
+      expect(StandardNestedFetcher.getParents(shared, (target) => target).map((link) => link.keyPath)).toEqual([
+        "children.1",
+        "children.2",
+        "children.0",
+      ]);
+    });
   });
 });
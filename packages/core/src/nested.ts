@@ -1,7 +1,19 @@
-import { comparer, computed, makeObservable } from "mobx";
+import {
+  computed,
+  createAtom,
+  IArrayDidChange,
+  IAtom,
+  IComputedValue,
+  IObservableArray,
+  isBoxedObservable,
+  isObservableArray,
+  observe,
+  onBecomeObserved,
+  onBecomeUnobserved,
+} from "mobx";
 import { createPropertyLikeAnnotation, getAnnotationProcessor } from "./annotationProcessor";
 import { KeyPath } from "./keyPath";
-import { unwrapShallowContents } from "./mobx-utils";
+import { unwrapRecordContents, unwrapShallowContents } from "./mobx-utils";
 
 enum NestedMode {
   /**
@@ -12,11 +24,32 @@ enum NestedMode {
    * Nested objects are hoisted to the parent object.
    */
   Hoist = "@nested.hoist",
+  /**
+   * Elements of nested collections are keyed by a function instead of their indices.
+   */
+  Keyed = "@nested.keyed",
+  /**
+   * Entries of plain objects are nested under their keys.
+   */
+  Record = "@nested.record",
 }
 
+/** Data of a `@nested` annotation */
+type NestedAnnotation = {
+  readonly mode: NestedMode;
+  /** The function to key elements for {@link NestedMode.Keyed} */
+  readonly keyOf?: (element: any) => KeyPath.Key;
+};
+
 const nestedKey = Symbol("nested");
-const createNested = createPropertyLikeAnnotation(nestedKey, () => NestedMode.Default);
-const createNestedHoist = createPropertyLikeAnnotation(nestedKey, () => NestedMode.Hoist);
+const createNested = createPropertyLikeAnnotation(nestedKey, (): NestedAnnotation => ({ mode: NestedMode.Default }));
+const createNestedHoist = createPropertyLikeAnnotation(nestedKey, (): NestedAnnotation => ({ mode: NestedMode.Hoist }));
+const createNestedRecord = createPropertyLikeAnnotation(
+  nestedKey,
+  (): NestedAnnotation => ({ mode: NestedMode.Record })
+);
+const createNestedKeyed = <E>(keyOf: (element: E) => KeyPath.Key) =>
+  createPropertyLikeAnnotation(nestedKey, (): NestedAnnotation => ({ mode: NestedMode.Keyed, keyOf }));
 
 /**
  * Annotation for nested objects
@@ -46,6 +79,46 @@ export const nested = Object.assign(createNested, {
    * @function
    */
   hoist: createNestedHoist,
+  /**
+   * Annotation for nested collections whose elements are keyed by a function
+   *
+   * Key paths of the elements stay the same when the collection is reordered,
+   * so changes and errors remain attached to the right elements.
+   *
+   * @remarks
+   * - Elements of arrays, sets, and maps are keyed by the function instead of their indices or map keys
+   * - Keys are encoded with {@link KeyPath.encodeKey}
+   * - Keys must be unique within the collection.
+   *   Elements sharing a key collapse into one key path, which is warned in development.
+   *
+   * @example
+   * ```typescript
+   * @nested.keyed((item: Item) => item.id) @observable items: Item[] = [];
+   * // Key path for "items.0.value" becomes "items.<id>.value"
+   * ```
+   *
+   * @function
+   */
+  keyed: createNestedKeyed,
+  /**
+   * Annotation for records (plain objects with dynamic keys) whose entries are nested objects
+   *
+   * Without it, plain objects are treated as single nested objects.
+   *
+   * @remarks
+   * - Entries of plain and observable objects are nested under their keys
+   * - Added and removed entries are tracked as elements, like maps
+   * - Other values are treated the same as `@nested`
+   *
+   * @example
+   * ```typescript
+   * @nested.record @observable byId: Record<string, Item> = {};
+   * // Key path for "byId.abc123.value"
+   * ```
+   *
+   * @function
+   */
+  record: createNestedRecord,
 });
 
 /**
@@ -55,6 +128,8 @@ export function* getNestedAnnotations(target: object): Generator<{
   key: string | symbol;
   getValue: () => any;
   hoist: boolean;
+  keyOf: ((element: any) => KeyPath.Key) | null;
+  record: boolean;
 }> {
   const processor = getAnnotationProcessor(target);
   if (!processor) return;
@@ -64,7 +139,8 @@ export function* getNestedAnnotations(target: object): Generator<{
 
   let hoistedKey: string | symbol | null = null;
   for (const [key, metadata] of annotations) {
-    const modes = new Set<NestedMode>(metadata.data);
+    const annotations: NestedAnnotation[] = metadata.data;
+    const modes = new Set(annotations.map((annotation) => annotation.mode));
     if (modes.size > 1) {
       throw new Error(`Mixed @nested annotations are not allowed for the same key: ${String(key)}`);
     }
@@ -78,7 +154,253 @@ export function* getNestedAnnotations(target: object): Generator<{
       hoistedKey = key;
     }
     const getValue = () => (key in target ? (target as any)[key] : metadata.get?.());
-    yield { key, getValue, hoist };
+    const keyOf = annotations.at(-1)?.keyOf ?? null; // Last annotation prevails
+    const record = modes.has(NestedMode.Record);
+    yield { key, getValue, hoist, keyOf, record };
+  }
+}
+
+KeyPath.setKeyOfResolver((owner, key) => {
+  for (const annotation of getNestedAnnotations(owner)) {
+    if (annotation.key === key) return annotation.keyOf;
+  }
+  return null;
+});
+
+/**
+ * Index from nested objects to the fetchers that have fetched them, in the order of fetching
+ *
+ * Updated whenever a fetcher fetches the entries of a key, so the parents are looked up without iterating the entries.
+ * The fetchers are held weakly, so that nested objects do not keep their former parents alive.
+ */
+const parentIndex = new WeakMap<object, ParentIndexEntry>();
+type ParentIndexEntry = {
+  /** Reported when the fetchers of the nested object change */
+  readonly atom: IAtom;
+  /** Key paths of the nested object per fetcher and annotated key */
+  readonly fetchers: Map<WeakRef<StandardNestedFetcher<any>>, Map<KeyPath, KeyPath[]>>;
+};
+
+/** Get the index entry of the nested object, creating it so that the lookups are notified of the first parent */
+function getParentIndex(target: object): ParentIndexEntry {
+  let index = parentIndex.get(target);
+  if (!index) {
+    index = { atom: createAtom("StandardNestedFetcher.parents"), fetchers: new Map() };
+    parentIndex.set(target, index);
+  }
+  return index;
+}
+
+/**
+ * Error thrown when a nested object refers back to its ancestors
+ *
+ * @internal @ignore
+ */
+export class NestedCycleError extends Error {
+  /** The key path from the instance to the nested object referring back to its ancestor */
+  readonly keyPath: KeyPath;
+  readonly #path: readonly NestedTraversal.Frame<object>[];
+  readonly #ancestorIndex: number;
+  readonly #cycleKeyPath: KeyPath;
+
+  /**
+   * @param path - The path of the traversal
+   * @param ancestorIndex - The index of the ancestor referred back to
+   * @param keyPath - The key path of the reference relative to the current instance
+   * @param instance - The instance to which {@link NestedCycleError#keyPath} is relative (the root by default)
+   */
+  constructor(
+    path: readonly NestedTraversal.Frame<object>[],
+    ancestorIndex: number,
+    keyPath: KeyPath,
+    instance?: object
+  ) {
+    const index = instance ? path.findIndex((frame) => frame.instance === instance) : 0;
+    // Instances in the cycle refer back to themselves by going around it
+    const relativeKeyPath = KeyPath.build(
+      ...path.slice(index + 1).map((frame) => frame.keyPath),
+      keyPath,
+      ...(index >= ancestorIndex ? path.slice(ancestorIndex + 1, index + 1).map((frame) => frame.keyPath) : [])
+    );
+    super(
+      `nested: Cycle detected at "${String(relativeKeyPath)}". A nested object must not refer back to its ancestors`
+    );
+    this.keyPath = relativeKeyPath;
+    this.#path = path;
+    this.#ancestorIndex = ancestorIndex;
+    this.#cycleKeyPath = keyPath;
+  }
+
+  /** Get the same error relative to another instance on the path */
+  relativeTo(instance: object) {
+    if (!this.#path.some((frame) => frame.instance === instance)) return this;
+    return new NestedCycleError(this.#path, this.#ancestorIndex, this.#cycleKeyPath, instance);
+  }
+}
+
+/**
+ * Path of nested instances being traversed recursively, to detect cycles
+ *
+ * Recursive traversals of nested instances (e.g., `Watcher#changedKeyPaths`) keep the instances on the current path,
+ * and check each nested instance against them before traversing it.
+ * Nested instances shared by multiple parents (or referenced multiple times) are not on the same path,
+ * so they are not cycles.
+ *
+ * @remarks
+ * - Cycles throw {@link NestedCycleError} in development, and are skipped in production
+ * - Use a separate traversal for each kind of recursion, since one kind can start another on the same instance
+ *   (e.g., `Watcher#changedKeyPaths` reading `Watcher#changedElements`)
+ * - Traversals of computed values must be shared by all instances, since they are evaluated recursively by MobX.\
+ *   Lazy traversals such as generators must create one for each call instead.
+ * - Values of instances in a cycle depend on the instance the traversal started from, so computed values must not cache them.\
+ *   They pass a fallback to {@link NestedTraversal#run}, which replaces the value in production once a cycle is detected.
+ *
+ * @internal @ignore
+ */
+export class NestedTraversal<T extends object> {
+  readonly #observe: (instance: T) => unknown;
+  readonly #path: (NestedTraversal.Frame<T> & { depth: number })[] = [];
+  /** The number of runs on the path with a fallback */
+  #fallbackCount = 0;
+
+  /**
+   * Compute a value of the instance recursively, without reading the cached values of the nested instances
+   *
+   * Nested instances already on the way from the instance are skipped,
+   * so the value does not depend on where the traversal started.
+   *
+   * @param compute - A function that computes the value of an instance.\
+   *   It receives a function that computes the value of a nested instance in the same way,
+   *   which returns `undefined` for the skipped ones.
+   */
+  static collect<T extends object, R>(
+    instance: T,
+    compute: (instance: T, nested: (instance: T) => R | undefined) => R
+  ) {
+    const path = new Set<T>();
+    const visit = (instance: T): R | undefined => {
+      if (path.has(instance)) return undefined;
+      path.add(instance);
+      try {
+        return compute(instance, visit);
+      } finally {
+        path.delete(instance);
+      }
+    };
+    return visit(instance)!;
+  }
+
+  /**
+   * @param observe - A function that reads the nested instances of an instance (e.g., `Watcher#nested`).\
+   *   It is called for the instances in a cycle when detected,
+   *   so that computed values detecting the cycle are recomputed once it is broken.
+   */
+  constructor(observe: (instance: T) => unknown) {
+    this.#observe = observe;
+  }
+
+  /**
+   * Run the function with the instance on the path
+   *
+   * Does nothing if the instance is the current one, i.e., it has been visited by {@link NestedTraversal#visit}.
+   *
+   * @param fallback - A function that computes the value without the cached values of the nested instances
+   *   (see {@link NestedTraversal.collect}).\
+   *   Used in production in place of `fn` when a cycle is detected under the instance.
+   */
+  run<R>(instance: T, fn: () => R, fallback?: () => R): R {
+    if (fallback) this.#fallbackCount++;
+    try {
+      this.#enter(instance, null);
+      try {
+        return fn();
+      } finally {
+        this.#leave();
+      }
+    } catch (error) {
+      if (fallback && process.env.NODE_ENV === "production" && error instanceof NestedCycleError) return fallback();
+      throw error;
+    } finally {
+      if (fallback) this.#fallbackCount--;
+    }
+  }
+
+  /**
+   * Run the function with the nested instance on the path
+   *
+   * @param keyPath - The key path of the nested instance relative to the current instance
+   *
+   * @returns The result of the function, or `undefined` if the nested instance is skipped in production
+   *
+   * @throws {@link NestedCycleError} in development if the nested instance is on the path
+   */
+  visit<R>(instance: T, keyPath: KeyPath, fn: () => R): R | undefined {
+    const current = this.#path.at(-1)?.instance;
+    try {
+      if (!this.#enter(instance, keyPath)) return undefined;
+      try {
+        return fn();
+      } finally {
+        this.#leave();
+      }
+    } catch (error) {
+      // Computed values cache the error, so it must be relative to the instance reading the nested instance
+      if (error instanceof NestedCycleError && current) throw error.relativeTo(current);
+      throw error;
+    }
+  }
+
+  /**
+   * Iterate over the nested entries with each nested instance on the path
+   *
+   * Entries referring back to the path are skipped in production.
+   *
+   * @throws {@link NestedCycleError} in development if a nested instance is on the path
+   */
+  *entries<E extends StandardNestedFetcher.Entry<T>>(instance: T, entries: Iterable<E>): Generator<E> {
+    this.#enter(instance, null);
+    try {
+      for (const entry of entries) {
+        if (!this.#enter(entry.data, entry.keyPath)) continue;
+        try {
+          yield entry;
+        } finally {
+          this.#leave();
+        }
+      }
+    } finally {
+      this.#leave();
+    }
+  }
+
+  /** @returns `false` if the instance is on the path and skipped */
+  #enter(instance: T, keyPath: KeyPath | null) {
+    const current = this.#path.at(-1);
+    if (keyPath === null && current?.instance === instance) {
+      current.depth++;
+      return true;
+    }
+    const ancestorIndex = this.#path.findIndex((frame) => frame.instance === instance);
+    if (ancestorIndex >= 0) {
+      for (const frame of this.#path.slice(ancestorIndex)) {
+        this.#observe(frame.instance);
+      }
+      // In production, thrown only to be replaced by the fallback of a run
+      if (process.env.NODE_ENV !== "production" || this.#fallbackCount > 0) {
+        const path = this.#path.map(({ instance, keyPath }) => ({ instance, keyPath }));
+        throw new NestedCycleError(path, ancestorIndex, keyPath ?? KeyPath.Self);
+      }
+      return false;
+    }
+    this.#path.push({ instance, keyPath: keyPath ?? KeyPath.Self, depth: 1 });
+    return true;
+  }
+
+  #leave() {
+    const current = this.#path.at(-1)!;
+    if (--current.depth === 0) {
+      this.#path.pop();
+    }
   }
 }
 
@@ -86,17 +408,139 @@ export function* getNestedAnnotations(target: object): Generator<{
  * A fetcher that returns all nested entries
  *
  * Key features:
- * - Tracks nested objects in properties, arrays, sets, and maps
+ * - Tracks nested objects in properties, arrays, sets, maps, and records (`@nested.record`)
  * - Provides access to nested objects by key path
  * - Supports iteration over all nested objects
- * - Maintains parent-child relationships
+ * - Indexes the parents of nested objects as they are fetched
+ * - Caches entries per key, so changes in one collection do not re-fetch the others
+ * - Caches entries in chunks of consecutive elements. While observed, replacing an element of an observable array
+ *   only re-fetches its chunk, and {@link dataMap} and the index of the parents are updated by the changed chunks
  *
  * @remarks
- * Symbol keys are not supported
+ * - Symbol and number keys are encoded with {@link KeyPath.encodeKey}
+ * - Nested objects shared by multiple parents (or referenced multiple times) are fetched for each reference
+ * - Nested objects referring back to their ancestors (cycles) are fetched as well.\
+ *   Recursive traversals detect them with {@link NestedTraversal}.
  */
 export class StandardNestedFetcher<T extends object> implements Iterable<StandardNestedFetcher.Entry<T>> {
-  readonly #transform: (entry: StandardNestedFetcher.Entry<any>) => T | null;
-  readonly #fetchers = new Map<KeyPath, () => Generator<StandardNestedFetcher.Entry<T>>>();
+  readonly #target: object;
+  readonly #fetchers = new Map<KeyPath, NestedKeyFetcher<T>>();
+  readonly #ref = new WeakRef(this);
+  readonly #dataMap = new Map<KeyPath, T>();
+  /** Chunks of each key reflected in {@link dataMap} */
+  readonly #dataMapChunks = new Map<KeyPath, readonly StandardNestedFetcher.Chunk<T>[]>();
+
+  /**
+   * Get the parent of a nested object
+   *
+   * Nested objects shared by multiple parents return the first found parent.
+   *
+   * @param target - The nested object
+   * @param resolve - A function that returns the instance of the parent from its target (e.g., the watcher of the target),
+   *   or `null` if it does not exist
+   *
+   * @returns The parent and the key path of the object relative to the parent,
+   *   or `null` if no parent is found (see {@link StandardNestedFetcher.getParents})
+   */
+  static getParent<T extends object>(
+    target: object,
+    resolve: (target: object) => T | null
+  ): StandardNestedFetcher.ParentLink<T> | null {
+    return this.getParents(target, resolve)[0] ?? null;
+  }
+
+  /**
+   * Get all parents of a nested object
+   *
+   * The parents are looked up among the fetchers of any kind that have fetched the object,
+   * so a parent is found as soon as any of them fetches its entries
+   * (e.g., the watcher of the parent does so when it is created).
+   *
+   * @param target - The nested object
+   * @param resolve - A function that returns the instance of the parent from its target (e.g., the watcher of the target),
+   *   or `null` if it does not exist
+   *
+   * @returns The links in the order in which the parents first fetched the object.
+   *   The same parent may appear multiple times when it references the object at multiple key paths.
+   */
+  static getParents<T extends object>(
+    target: object,
+    resolve: (target: object) => T | null
+  ): readonly StandardNestedFetcher.ParentLink<T>[] {
+    const index = getParentIndex(target);
+    index.atom.reportObserved();
+
+    const result: StandardNestedFetcher.ParentLink<T>[] = [];
+    const resolved = new Set<object>();
+    for (const [ref, keys] of Array.from(index.fetchers)) {
+      const fetcher = ref.deref();
+      if (!fetcher) {
+        index.fetchers.delete(ref);
+        continue;
+      }
+      if (resolved.has(fetcher.#target)) continue; // Fetched by another kind of fetcher of the same parent
+      // Fetch the entries again if they are outdated, which updates the index
+      for (const key of Array.from(keys.keys())) {
+        fetcher.#fetchers.get(key)?.get();
+      }
+      const keyPathsByKey = index.fetchers.get(ref);
+      if (!keyPathsByKey) continue;
+      const parent = resolve(fetcher.#target);
+      if (!parent) continue;
+      resolved.add(fetcher.#target);
+      for (const keyPaths of keyPathsByKey.values()) {
+        for (const keyPath of keyPaths) {
+          result.push({ parent, target: fetcher.#target, keyPath });
+        }
+      }
+    }
+    return result;
+  }
+
+  /**
+   * Get the topmost ancestor of a nested object by following the first parents
+   *
+   * @param data - The instance of the nested object itself, returned if it has no parent
+   */
+  static getRoot<T extends object>(data: T, target: object, resolve: (target: object) => T | null): T {
+    const visited = new Set<object>([target]);
+    let root = data;
+    for (
+      let link = this.getParent(target, resolve);
+      link && !visited.has(link.target);
+      link = this.getParent(link.target, resolve)
+    ) {
+      root = link.parent;
+      visited.add(link.target);
+    }
+    return root;
+  }
+
+  /** Get the key path of a nested object from the topmost ancestor by following the first parents */
+  static getKeyPathFromRoot(target: object, resolve: (target: object) => object | null): KeyPath {
+    const visited = new Set<object>([target]);
+    const keyPaths: KeyPath[] = [];
+    for (
+      let link = this.getParent(target, resolve);
+      link && !visited.has(link.target);
+      link = this.getParent(link.target, resolve)
+    ) {
+      keyPaths.unshift(link.keyPath);
+      visited.add(link.target);
+    }
+    return KeyPath.build(...keyPaths);
+  }
+
+  /**
+   * Create a traversal of nested instances to detect cycles, for the packages built on this one
+   *
+   * @param observe - A function that reads the nested instances of an instance (see {@link NestedTraversal})
+   *
+   * @internal @ignore
+   */
+  static createTraversal<T extends object>(observe: (instance: T) => unknown) {
+    return new NestedTraversal(observe);
+  }
 
   /**
    * @param target - The target object
@@ -104,38 +548,77 @@ export class StandardNestedFetcher<T extends object> implements Iterable<Standar
    *   If the function returns `null`, the entry is ignored.
    */
   constructor(target: object, transform: (entry: StandardNestedFetcher.Entry<any>) => T | null) {
-    makeObservable(this);
+    this.#target = target;
 
-    this.#transform = transform;
-
-    for (const { key, getValue, hoist } of getNestedAnnotations(target)) {
-      if (typeof key !== "string") continue; // symbol keys are not supported
-      const keyPath = hoist ? KeyPath.Self : KeyPath.build(key);
-      const fetcher = this.#createFetcher(keyPath, getValue);
-      this.#fetchers.set(keyPath, fetcher);
+    for (const { key, getValue, hoist, keyOf, record } of getNestedAnnotations(target)) {
+      const keyPath = hoist ? KeyPath.Self : KeyPath.encodeKey(key);
+      this.#fetchers.set(
+        keyPath,
+        new NestedKeyFetcher({
+          key: keyPath,
+          getValue,
+          unwrap: record ? unwrapRecordContents : unwrapShallowContents,
+          keyOf,
+          transform,
+          didFetch: (previous, chunks) => this.#updateParentIndex(keyPath, previous, chunks),
+        })
+      );
     }
   }
 
-  #createFetcher(key: KeyPath, getValue: () => any) {
-    // eslint-disable-next-line @typescript-eslint/no-this-alias
-    const that = this;
-    return function* (): Generator<StandardNestedFetcher.Entry<T>> {
-      for (const [subKey, value] of unwrapShallowContents(getValue())) {
-        if (typeof subKey === "symbol") continue; // symbol keys are not supported
-        const keyPath = KeyPath.build(key, subKey);
-        const data = that.#transform({ key, keyPath, data: value }) ?? null;
-        if (data === null) continue;
-        yield { key, keyPath, data };
+  /** Update the index of the parents with the nested objects added to or removed from the key */
+  #updateParentIndex(
+    key: KeyPath,
+    previous: readonly StandardNestedFetcher.Chunk<T>[],
+    chunks: readonly StandardNestedFetcher.Chunk<T>[]
+  ) {
+    const removed: [child: object, keyPath: KeyPath][] = [];
+    const added: [child: object, keyPath: KeyPath][] = [];
+    for (const [oldChunk, newChunk] of changedChunks(previous, chunks)) {
+      const length = Math.max(oldChunk?.entries.length ?? 0, newChunk?.entries.length ?? 0);
+      for (let i = 0; i < length; i++) {
+        const oldEntry = oldChunk?.entries[i] ?? null;
+        const newEntry = newChunk?.entries[i] ?? null;
+        if (oldEntry === newEntry) continue;
+        const oldChild = oldChunk?.children[i] ?? null;
+        const newChild = newChunk?.children[i] ?? null;
+        if (oldEntry && oldChild) removed.push([oldChild, oldEntry.keyPath]);
+        if (newEntry && newChild) added.push([newChild, newEntry.keyPath]);
       }
-    };
+    }
+
+    const changed = new Set<ParentIndexEntry>();
+    for (const [child, keyPath] of removed) {
+      const index = parentIndex.get(child);
+      const keys = index?.fetchers.get(this.#ref);
+      const keyPaths = keys?.get(key);
+      if (!index || !keys || !keyPaths) continue;
+      keyPaths.splice(keyPaths.indexOf(keyPath), 1);
+      if (keyPaths.length === 0) keys.delete(key);
+      if (keys.size === 0) index.fetchers.delete(this.#ref);
+      changed.add(index);
+    }
+    for (const [child, keyPath] of added) {
+      const index = getParentIndex(child);
+      let keys = index.fetchers.get(this.#ref);
+      if (!keys) {
+        keys = new Map();
+        index.fetchers.set(this.#ref, keys);
+      }
+      const keyPaths = keys.get(key);
+      if (keyPaths) keyPaths.push(keyPath);
+      else keys.set(key, [keyPath]);
+      changed.add(index);
+    }
+    for (const index of changed) {
+      index.atom.reportChanged();
+    }
   }
 
   /** Iterate over all entries */
   *[Symbol.iterator]() {
-    for (const fn of this.#fetchers.values()) {
-      for (const entry of fn()) {
-        yield entry;
-      }
+    for (const fetcher of this.#fetchers.values()) {
+      yield* entriesOf(fetcher.get());
     }
   }
 
@@ -143,22 +626,335 @@ export class StandardNestedFetcher<T extends object> implements Iterable<Standar
   *getForKey(keyPath: KeyPath) {
     const fetcher = this.#fetchers.get(keyPath);
     if (!fetcher) return;
-    for (const entry of fetcher()) {
-      yield entry;
+    yield* entriesOf(fetcher.get());
+  }
+
+  /**
+   * Iterate over the chunks of the entries, optionally for the given key path
+   *
+   * @internal @ignore
+   */
+  *chunks(keyPath?: KeyPath) {
+    if (keyPath === undefined) {
+      for (const fetcher of this.#fetchers.values()) {
+        yield* fetcher.get();
+      }
+      return;
     }
+    const fetcher = this.#fetchers.get(keyPath);
+    if (fetcher) yield* fetcher.get();
   }
 
-  /** Map of key paths to data */
-  @computed({ equals: comparer.shallow })
+  /**
+   * Map of key paths to data
+   *
+   * @remarks
+   * - The same map is updated in place as the entries change, so that replacing or removing an element
+   *   only updates its key path. Adding a new key path rebuilds the map to keep the order of the entries.
+   * - Observers are notified when the entries change
+   */
   get dataMap(): ReadonlyMap<KeyPath, T> {
-    const result = new Map<KeyPath, T>();
-    for (const entry of this) {
-      result.set(entry.keyPath, entry.data);
+    let rebuild = false;
+    for (const [key, fetcher] of this.#fetchers) {
+      const chunks = fetcher.get();
+      const previous = this.#dataMapChunks.get(key) ?? [];
+      if (chunks === previous) continue;
+      this.#dataMapChunks.set(key, chunks);
+      if (!rebuild && !this.#updateDataMap(previous, chunks)) {
+        rebuild = true;
+      }
     }
-    return result;
+    if (rebuild) {
+      this.#dataMap.clear();
+      for (const entry of this) {
+        this.#dataMap.set(entry.keyPath, entry.data);
+      }
+    }
+    return this.#dataMap;
+  }
+
+  /**
+   * Apply the changes of the chunks of a key to {@link dataMap}
+   *
+   * @returns `false` if a new key path is added, in which case the map must be rebuilt to keep the order
+   */
+  #updateDataMap(
+    previous: readonly StandardNestedFetcher.Chunk<T>[],
+    chunks: readonly StandardNestedFetcher.Chunk<T>[]
+  ) {
+    for (const [oldChunk, newChunk] of changedChunks(previous, chunks)) {
+      const length = Math.max(oldChunk?.entries.length ?? 0, newChunk?.entries.length ?? 0);
+      for (let i = 0; i < length; i++) {
+        const oldEntry = oldChunk?.entries[i] ?? null;
+        const newEntry = newChunk?.entries[i] ?? null;
+        if (oldEntry === newEntry) continue;
+        if (newEntry && oldEntry?.keyPath === newEntry.keyPath) {
+          this.#dataMap.set(newEntry.keyPath, newEntry.data);
+          continue;
+        }
+        if (newEntry) return false;
+        if (oldEntry && this.#dataMap.get(oldEntry.keyPath) === oldEntry.data) {
+          this.#dataMap.delete(oldEntry.keyPath);
+        }
+      }
+    }
+    return true;
+  }
+}
+
+/** Number of elements in a chunk of entries */
+const chunkSize = 32;
+
+/**
+ * Fetcher of the entries of an annotated key
+ *
+ * The entries are split into immutable chunks of consecutive elements,
+ * and the chunks of unchanged elements keep their identity across fetches.
+ * While observed, changes of observable arrays are applied from their change events,
+ * so replacing an element only fetches the chunk of the element.
+ * Other values are fetched as a whole on each change.
+ */
+class NestedKeyFetcher<T extends object> {
+  readonly #key: KeyPath;
+  readonly #getValue: () => any;
+  readonly #unwrap: (value: any) => Iterable<[key: string | symbol | number | null, content: any]>;
+  readonly #keyOf: ((element: any) => KeyPath.Key) | null;
+  readonly #transform: (entry: StandardNestedFetcher.Entry<any>) => T | null;
+  readonly #didFetch: (
+    previous: readonly StandardNestedFetcher.Chunk<T>[],
+    chunks: readonly StandardNestedFetcher.Chunk<T>[]
+  ) => void;
+  readonly #computed: IComputedValue<readonly StandardNestedFetcher.Chunk<T>[]>;
+  /** Raw key paths of the elements by their indices */
+  readonly #indexKeyPaths: KeyPath[] = [];
+  #chunks: readonly StandardNestedFetcher.Chunk<T>[] = [];
+  /** The collection from which {@link #chunks} are fetched */
+  #container: unknown = undefined;
+  /** Changes of the array since the last fetch, or `null` if not observed */
+  #changes: IArrayDidChange[] | null = null;
+  #unobserve: (() => void) | null = null;
+  #isObserved = false;
+
+  constructor(args: {
+    key: KeyPath;
+    getValue: () => any;
+    unwrap: (value: any) => Iterable<[key: string | symbol | number | null, content: any]>;
+    keyOf: ((element: any) => KeyPath.Key) | null;
+    transform: (entry: StandardNestedFetcher.Entry<any>) => T | null;
+    /** Called with the previous and new chunks when they change */
+    didFetch: (
+      previous: readonly StandardNestedFetcher.Chunk<T>[],
+      chunks: readonly StandardNestedFetcher.Chunk<T>[]
+    ) => void;
+  }) {
+    this.#key = args.key;
+    this.#getValue = args.getValue;
+    this.#unwrap = args.unwrap;
+    this.#keyOf = args.keyOf;
+    this.#transform = args.transform;
+    this.#didFetch = args.didFetch;
+    this.#computed = computed(() => this.#fetch());
+    onBecomeObserved(this.#computed, () => {
+      this.#isObserved = true;
+      this.#observeContainer();
+    });
+    onBecomeUnobserved(this.#computed, () => {
+      this.#isObserved = false;
+      this.#unobserveContainer();
+    });
+  }
+
+  /** The chunks of the entries */
+  get() {
+    return this.#computed.get();
+  }
+
+  #fetch() {
+    let container = this.#getValue();
+    if (isBoxedObservable(container)) {
+      container = container.get();
+    }
+
+    const previous = this.#chunks;
+    let chunks: StandardNestedFetcher.Chunk<T>[];
+    if (container === this.#container && this.#changes) {
+      chunks = this.#fetchChanges(container as IObservableArray, this.#changes);
+      this.#changes = [];
+    } else {
+      chunks = this.#fetchAll(container);
+      if (container !== this.#container) {
+        this.#unobserveContainer();
+        this.#container = container;
+        if (this.#isObserved) this.#observeContainer();
+      }
+    }
+
+    if (chunks.length === previous.length && chunks.every((chunk, i) => chunk === previous[i])) {
+      return previous;
+    }
+    this.#chunks = chunks;
+    if (process.env.NODE_ENV !== "production" && this.#keyOf) {
+      warnDuplicateKeys(container, chunks);
+    }
+    this.#didFetch(previous, chunks);
+    return chunks;
+  }
+
+  /** Fetch all elements of the container */
+  #fetchAll(container: unknown) {
+    const contents = Array.from(this.#unwrap(container));
+    const chunks: StandardNestedFetcher.Chunk<T>[] = [];
+    for (let i = 0; i < contents.length; i += chunkSize) {
+      chunks.push(this.#createChunk(contents.slice(i, i + chunkSize), this.#chunks[chunks.length]));
+    }
+    return chunks;
+  }
+
+  /** Fetch the chunks of the array affected by the changes */
+  #fetchChanges(array: IObservableArray, changes: readonly IArrayDidChange[]) {
+    // Elements after a splice are shifted, so all of their chunks are fetched
+    let splicedIndex = array.length;
+    const updatedIndices = new Set<number>();
+    for (const change of changes) {
+      if (change.type === "splice") {
+        splicedIndex = Math.min(splicedIndex, change.index);
+      } else {
+        updatedIndices.add(change.index);
+      }
+    }
+
+    const count = Math.ceil(array.length / chunkSize);
+    const splicedChunk = Math.floor(splicedIndex / chunkSize);
+    const chunks = this.#chunks.slice(0, Math.min(count, splicedChunk));
+    for (const index of updatedIndices) {
+      const i = Math.floor(index / chunkSize);
+      if (i >= chunks.length) continue;
+      chunks[i] = this.#fetchChunk(array, i, chunks[i]);
+    }
+    for (let i = chunks.length; i < count; i++) {
+      chunks.push(this.#fetchChunk(array, i, this.#chunks[i]));
+    }
+    return chunks;
+  }
+
+  /** Fetch a chunk of the array */
+  #fetchChunk(array: IObservableArray, index: number, previous: StandardNestedFetcher.Chunk<T> | undefined) {
+    const start = index * chunkSize;
+    return this.#createChunk(
+      array.slice(start, start + chunkSize).map((element, i) => [start + i, element] as const),
+      previous
+    );
+  }
+
+  /** Create a chunk of the contents, reusing the previous chunk and its entries if unchanged */
+  #createChunk(
+    contents: readonly (readonly [key: string | symbol | number | null, content: any])[],
+    previous: StandardNestedFetcher.Chunk<T> | undefined
+  ): StandardNestedFetcher.Chunk<T> {
+    const entries: (StandardNestedFetcher.Entry<T> | null)[] = [];
+    const children: (object | null)[] = [];
+    let changed = previous?.entries.length !== contents.length;
+    for (const [i, [subKey, value]] of contents.entries()) {
+      const entry = this.#createEntry(subKey, value, previous?.entries[i] ?? null);
+      entries.push(entry);
+      children.push(entry && value !== null && typeof value === "object" ? value : null);
+      changed ||= entry !== previous?.entries[i];
+    }
+    return changed || !previous ? { entries, children } : previous;
+  }
+
+  /** Create an entry of the content, reusing the previous entry if unchanged */
+  #createEntry(
+    subKey: string | symbol | number | null,
+    value: any,
+    previous: StandardNestedFetcher.Entry<T> | null
+  ): StandardNestedFetcher.Entry<T> | null {
+    const key = this.#key;
+    const rawKeyPath =
+      typeof subKey === "number"
+        ? (this.#indexKeyPaths[subKey] ??= KeyPath.build(key, KeyPath.encodeKey(subKey)))
+        : KeyPath.build(key, subKey === null ? null : KeyPath.encodeKey(subKey));
+    const keyPath =
+      this.#keyOf && subKey !== null && value !== null && value !== undefined
+        ? KeyPath.build(key, KeyPath.encodeKey(this.#keyOf(value)))
+        : rawKeyPath;
+    const data = this.#transform({ key, keyPath, rawKeyPath, data: value }) ?? null;
+    if (data === null) return null;
+    if (previous?.keyPath === keyPath && previous.rawKeyPath === rawKeyPath && previous.data === data) {
+      return previous;
+    }
+    return { key, keyPath, rawKeyPath, data };
+  }
+
+  /** Start recording the changes of the array */
+  #observeContainer() {
+    if (this.#unobserve || !isObservableArray(this.#container)) return;
+    this.#changes = [];
+    this.#unobserve = observe(this.#container, (change) => this.#changes?.push(change));
+  }
+
+  #unobserveContainer() {
+    this.#unobserve?.();
+    this.#unobserve = null;
+    this.#changes = null;
   }
 }
 
+/** Duplicate key paths already warned per collection */
+const warnedDuplicateKeyPaths = new WeakMap<object, Set<KeyPath>>();
+
+/** Warn that elements of a `@nested.keyed` collection share a key, once per collection and key path */
+function warnDuplicateKeys(container: unknown, chunks: readonly StandardNestedFetcher.Chunk<any>[]) {
+  if (typeof container !== "object" || container === null) return;
+  const keyPaths = new Set<KeyPath>();
+  for (const entry of entriesOf(chunks)) {
+    if (!keyPaths.has(entry.keyPath)) {
+      keyPaths.add(entry.keyPath);
+      continue;
+    }
+    let warned = warnedDuplicateKeyPaths.get(container);
+    if (!warned) {
+      warned = new Set();
+      warnedDuplicateKeyPaths.set(container, warned);
+    }
+    if (warned.has(entry.keyPath)) continue;
+    warned.add(entry.keyPath);
+    console.warn(
+      `@nested.keyed: Elements share the key path "${String(entry.keyPath)}", so only one of them is reachable by the key path`
+    );
+  }
+}
+
+/** Iterate over the entries of the chunks */
+function* entriesOf<T extends object>(chunks: readonly StandardNestedFetcher.Chunk<T>[]) {
+  for (const chunk of chunks) {
+    for (const entry of chunk.entries) {
+      if (entry) yield entry;
+    }
+  }
+}
+
+/** Iterate over the pairs of chunks at the same positions that differ */
+function* changedChunks<T extends object>(
+  previous: readonly StandardNestedFetcher.Chunk<T>[],
+  chunks: readonly StandardNestedFetcher.Chunk<T>[]
+): Generator<
+  [previous: StandardNestedFetcher.Chunk<T> | undefined, chunk: StandardNestedFetcher.Chunk<T> | undefined]
+> {
+  for (let i = 0; i < Math.max(previous.length, chunks.length); i++) {
+    if (previous[i] !== chunks[i]) yield [previous[i], chunks[i]];
+  }
+}
+
+export namespace NestedTraversal {
+  /** An instance on the path */
+  export type Frame<T extends object> = {
+    readonly instance: T;
+    /** The key path of the instance relative to the previous one */
+    readonly keyPath: KeyPath;
+  };
+}
+
 export namespace StandardNestedFetcher {
   /**
    * Entry representing a nested object
@@ -171,7 +967,38 @@ export namespace StandardNestedFetcher {
     readonly key: KeyPath;
     /** Full path to the nested object */
     readonly keyPath: KeyPath;
+    /**
+     * Full path to the nested object by the indices of arrays and sets and the keys of maps
+     *
+     * Same as {@link keyPath} unless the elements are keyed by `@nested.keyed`.
+     */
+    readonly rawKeyPath: KeyPath;
     /** Data */
     readonly data: T;
   };
+
+  /**
+   * Entries of consecutive elements of a key
+   *
+   * Chunks are immutable, and unchanged chunks keep their identity as the entries change,
+   * so that what is derived from them can be reused (e.g., by `NestedAggregator`).
+   *
+   * @internal @ignore
+   */
+  export type Chunk<T extends object> = {
+    /** Entries of the elements, or `null` for the elements ignored by the transform */
+    readonly entries: readonly (Entry<T> | null)[];
+    /** Nested objects of the elements, or `null` for the elements without entries */
+    readonly children: readonly (object | null)[];
+  };
+
+  /** Link from a nested object to its parent */
+  export type ParentLink<T extends object> = {
+    /** The parent */
+    readonly parent: T;
+    /** The target of the parent */
+    readonly target: object;
+    /** Path to the nested data relative to the parent */
+    readonly keyPath: KeyPath;
+  };
 }
@@ -0,0 +1,179 @@
+import { autorun, makeObservable, observable, runInAction } from "mobx";
+import { KeyPath } from "./keyPath";
+import { nested, StandardNestedFetcher } from "./nested";
+import { NestedAggregator } from "./nestedAggregator";
+
+class Item {
+  @observable invalid: KeyPath[] = [];
+
+  constructor() {
+    makeObservable(this);
+  }
+}
+
+class Sample {
+  @nested @observable items: Item[] = [];
+  @nested @observable other = new Item();
+
+  constructor(size: number) {
+    makeObservable(this);
+    for (let i = 0; i < size; i++) {
+      this.items.push(new Item());
+    }
+  }
+}
+
+function setup(size: number) {
+  const sample = new Sample(size);
+  const fetcher = new StandardNestedFetcher(sample, (entry) => (entry.data instanceof Item ? entry.data : null));
+  const select = vi.fn((item: Item) => item.invalid);
+  const aggregator = NestedAggregator.keyPaths(() => fetcher.chunks(), select);
+
+  const results: ReadonlySet<KeyPath>[] = [];
+  const dispose = autorun(() => {
+    results.push(aggregator.value);
+  });
+  select.mockClear();
+  return { sample, select, results, dispose };
+}
+
+describe("NestedAggregator", () => {
+  describe(".keyPaths", () => {
+    it("collects the key paths prefixed with the key paths of the entries", () => {
+      const { sample, results, dispose } = setup(3);
+      expect(results).toEqual([new Set()]);
+
+      runInAction(() => {
+        sample.items[1].invalid = [KeyPath.build("a"), KeyPath.build("b")];
+        sample.other.invalid = [KeyPath.Self];
+      });
+      expect(results.at(-1)).toEqual(new Set(["items.1.a", "items.1.b", "other"]));
+      dispose();
+    });
+
+    it("follows the structural changes of the entries", () => {
+      const { sample, results, dispose } = setup(3);
+
+      runInAction(() => {
+        sample.items[2].invalid = [KeyPath.build("a")];
+      });
+      expect(results.at(-1)).toEqual(new Set(["items.2.a"]));
+
+      runInAction(() => {
+        sample.items.shift();
+      });
+      expect(results.at(-1)).toEqual(new Set(["items.1.a"]));
+
+      runInAction(() => {
+        sample.items = [];
+      });
+      expect(results.at(-1)).toEqual(new Set());
+      dispose();
+    });
+
+    it("recomputes only the changed entry for a single-item edit", () => {
+      const { sample, select, dispose } = setup(1000);
+
+      runInAction(() => {
+        sample.items[500].invalid = [KeyPath.build("a")];
+      });
+      expect(select).toHaveBeenCalledTimes(1);
+      expect(select).toHaveBeenCalledWith(sample.items[500], "items.500");
+      dispose();
+    });
+
+    it("reuses the contributions of the retained entries when the structure changes", () => {
+      const { sample, select, dispose } = setup(1000);
+
+      runInAction(() => {
+        sample.items.push(new Item());
+      });
+      expect(select).toHaveBeenCalledTimes(1);
+      expect(select).toHaveBeenCalledWith(sample.items[1000], "items.1000");
+      dispose();
+    });
+
+    it("selects only the replaced entry and drops the contribution of the removed one", () => {
+      const { sample, select, results, dispose } = setup(1000);
+      runInAction(() => {
+        sample.items[500].invalid = [KeyPath.build("a")];
+      });
+      select.mockClear();
+
+      const item = new Item();
+      runInAction(() => {
+        sample.items[500] = item;
+      });
+      expect(select).toHaveBeenCalledTimes(1);
+      expect(select).toHaveBeenCalledWith(item, "items.500");
+      expect(results.at(-1)).toEqual(new Set());
+      dispose();
+    });
+
+    it("does not notify observers when the key paths stay the same", () => {
+      const { sample, results, dispose } = setup(100);
+
+      runInAction(() => {
+        sample.items[10].invalid = [KeyPath.build("a")];
+        sample.items[20].invalid = [KeyPath.build("a")];
+      });
+      expect(results).toHaveLength(2);
+
+      runInAction(() => {
+        sample.items[10].invalid = [KeyPath.build("a")];
+      });
+      expect(results).toHaveLength(2);
+      dispose();
+    });
+
+    it("is consistent inside an action", () => {
+      const { sample, dispose } = setup(100);
+      const fetcher = new StandardNestedFetcher(sample, (entry) => (entry.data instanceof Item ? entry.data : null));
+      const aggregator = NestedAggregator.keyPaths(
+        () => fetcher.chunks(),
+        (item) => item.invalid
+      );
+
+      runInAction(() => {
+        sample.items[10].invalid = [KeyPath.build("a")];
+        expect(aggregator.value).toEqual(new Set(["items.10.a"]));
+        sample.items[10].invalid = [];
+        expect(aggregator.value).toEqual(new Set());
+      });
+      dispose();
+    });
+  });
+
+  describe(".some", () => {
+    it("aggregates whether any of the entries satisfies the predicate", () => {
+      const sample = new Sample(100);
+      const fetcher = new StandardNestedFetcher(sample, (entry) => (entry.data instanceof Item ? entry.data : null));
+      const predicate = vi.fn((item: Item) => item.invalid.length > 0);
+      const aggregator = NestedAggregator.some(() => fetcher.chunks(), predicate);
+
+      const results: boolean[] = [];
+      const dispose = autorun(() => {
+        results.push(aggregator.value);
+      });
+      predicate.mockClear();
+
+      runInAction(() => {
+        sample.items[50].invalid = [KeyPath.Self];
+      });
+      expect(results).toEqual([false, true]);
+      expect(predicate).toHaveBeenCalledTimes(1);
+
+      runInAction(() => {
+        sample.items[60].invalid = [KeyPath.Self];
+      });
+      expect(results).toEqual([false, true]);
+
+      runInAction(() => {
+        sample.items[50].invalid = [];
+        sample.items[60].invalid = [];
+      });
+      expect(results).toEqual([false, true, false]);
+      dispose();
+    });
+  });
+});
@@ -0,0 +1,166 @@
+import { comparer, computed, IComputedValue, IEqualsComparer } from "mobx";
+import { KeyPath } from "./keyPath";
+import { StandardNestedFetcher } from "./nested";
+
+/** Maximum number of children of a node in the aggregation tree */
+const fanOut = 32;
+
+/** Node of the aggregation tree, kept to be reused while its children are the same */
+type Node<R> = {
+  readonly children: readonly IComputedValue<R>[];
+  readonly value: IComputedValue<R>;
+};
+
+/**
+ * Aggregator that merges values of nested objects incrementally
+ *
+ * Key features:
+ * - Caches the contribution of each nested entry in a computed value
+ * - Merges the contributions through a tree of computed values with bounded fan-out,
+ *   whose lowest level merges the chunks of the entries (see {@link StandardNestedFetcher.Chunk})
+ * - A change of a single nested object only recomputes the nodes on its way to the root,
+ *   so the cost is logarithmic rather than linear in the number of entries
+ * - When the entries change, only the nodes of the changed chunks and their ancestors are recreated
+ *
+ * @remarks
+ * - Same as other computed values of MobX, the contributions are cached only while observed.
+ * - The contributions are cached per entry, so they are dropped along with the entries
+ *   once their key paths or data change.
+ *
+ * @internal @ignore
+ */
+export class NestedAggregator<T extends object, R> {
+  readonly #chunks: () => Iterable<StandardNestedFetcher.Chunk<T>>;
+  readonly #select: (data: T, keyPath: KeyPath) => R;
+  readonly #merge: (values: R[]) => R;
+  readonly #equals: IEqualsComparer<R>;
+  readonly #leaves = new WeakMap<StandardNestedFetcher.Entry<T>, IComputedValue<R>>();
+  readonly #chunkNodes = new WeakMap<StandardNestedFetcher.Chunk<T>, IComputedValue<R>>();
+  /** Nodes above the chunks per level in the last built tree */
+  #levels: Node<R>[][] = [];
+  readonly #tree: IComputedValue<IComputedValue<R>>;
+
+  /**
+   * Aggregate the key paths of nested objects, prefixed with the key paths of the entries
+   *
+   * @param select - A function that returns the key paths of the nested object, relative to the object.\
+   *   It receives the key path of the entry as well.
+   */
+  static keyPaths<T extends object>(
+    chunks: () => Iterable<StandardNestedFetcher.Chunk<T>>,
+    select: (data: T, keyPath: KeyPath) => Iterable<KeyPath>
+  ) {
+    return new NestedAggregator<T, ReadonlySet<KeyPath>>({
+      chunks,
+      select: (data, keyPath) => {
+        const result = new Set<KeyPath>();
+        for (const relativeKeyPath of select(data, keyPath)) {
+          result.add(KeyPath.build(keyPath, relativeKeyPath));
+        }
+        return result;
+      },
+      merge: (values) => {
+        const result = new Set<KeyPath>();
+        for (const value of values) {
+          for (const keyPath of value) {
+            result.add(keyPath);
+          }
+        }
+        return result;
+      },
+      equals: comparer.structural,
+    });
+  }
+
+  /**
+   * Aggregate whether any of nested objects satisfies the predicate
+   *
+   * @param predicate - A function that tests the nested object. It receives the key path of the entry as well.
+   */
+  static some<T extends object>(
+    chunks: () => Iterable<StandardNestedFetcher.Chunk<T>>,
+    predicate: (data: T, keyPath: KeyPath) => boolean
+  ) {
+    return new NestedAggregator<T, boolean>({
+      chunks,
+      select: (data, keyPath) => predicate(data, keyPath),
+      merge: (values) => values.some((value) => value),
+    });
+  }
+
+  /**
+   * @param args.chunks - A function that returns the chunks of the nested entries (e.g., `StandardNestedFetcher#chunks`)
+   * @param args.select - A function that returns the contribution of a nested entry
+   * @param args.merge - A function that merges the contributions
+   * @param args.equals - A comparer of the contributions to stop propagating unchanged values
+   */
+  constructor(args: {
+    chunks: () => Iterable<StandardNestedFetcher.Chunk<T>>;
+    select: (data: T, keyPath: KeyPath) => R;
+    merge: (values: R[]) => R;
+    equals?: IEqualsComparer<R>;
+  }) {
+    this.#chunks = args.chunks;
+    this.#select = args.select;
+    this.#merge = args.merge;
+    this.#equals = args.equals ?? comparer.default;
+    this.#tree = computed(() => this.#buildTree());
+  }
+
+  /** The merged value of all nested entries */
+  get value(): R {
+    return this.#tree.get().get();
+  }
+
+  #buildTree() {
+    let values = Array.from(this.#chunks(), (chunk) => this.#getChunkNode(chunk));
+    const levels: Node<R>[][] = [];
+    do {
+      const previous = this.#levels[levels.length] ?? [];
+      const nodes: Node<R>[] = [];
+      for (let i = 0; i < Math.max(values.length, 1); i += fanOut) {
+        const children = values.slice(i, i + fanOut);
+        const node = previous[nodes.length];
+        nodes.push(node && childrenEqual(node.children, children) ? node : this.#createNode(children));
+      }
+      levels.push(nodes);
+      values = nodes.map((node) => node.value);
+    } while (values.length > 1);
+    this.#levels = levels;
+    return values[0];
+  }
+
+  /** Get the cached node merging the contributions of the entries of a chunk */
+  #getChunkNode(chunk: StandardNestedFetcher.Chunk<T>) {
+    let node = this.#chunkNodes.get(chunk);
+    if (!node) {
+      const leaves = chunk.entries.flatMap((entry) => (entry ? [this.#getLeaf(entry)] : []));
+      node = this.#createNode(leaves).value;
+      this.#chunkNodes.set(chunk, node);
+    }
+    return node;
+  }
+
+  /** Get the cached contribution of a nested entry */
+  #getLeaf(entry: StandardNestedFetcher.Entry<T>) {
+    let leaf = this.#leaves.get(entry);
+    if (!leaf) {
+      leaf = computed(() => this.#select(entry.data, entry.keyPath), { equals: this.#equals });
+      this.#leaves.set(entry, leaf);
+    }
+    return leaf;
+  }
+
+  /** Create a node merging the contributions of the children */
+  #createNode(children: readonly IComputedValue<R>[]): Node<R> {
+    return {
+      children,
+      value: computed(() => this.#merge(children.map((child) => child.get())), { equals: this.#equals }),
+    };
+  }
+}
+
+/** Compare the children of nodes */
+function childrenEqual<R>(a: readonly IComputedValue<R>[], b: readonly IComputedValue<R>[]) {
+  return a.length === b.length && a.every((child, i) => child === b[i]);
+}
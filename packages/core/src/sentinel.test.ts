@@ -0,0 +1,199 @@
+import { makeObservable, observable, runInAction } from "mobx";
+import { getAnnotationProcessor } from "./annotationProcessor";
+import { nested } from "./nested";
+import { makeSentinel } from "./sentinel";
+import { Validator } from "./validator";
+import { unwatch, watch, Watcher } from "./watcher";
+
+class Item {
+  value = 0;
+
+  constructor() {
+    makeObservable(this, { value: observable });
+  }
+}
+
+class Sample {
+  items: Item[] = [];
+  draft = "";
+  tags = new Set<string>();
+
+  constructor() {
+    makeObservable(this, { items: observable, draft: observable, tags: observable });
+    makeSentinel(this, { items: nested, draft: unwatch, tags: watch.ref });
+  }
+}
+
+describe("makeSentinel", () => {
+  it("returns the target", () => {
+    const target = { value: 1 };
+    expect(makeSentinel(target, { value: watch })).toBe(target);
+  });
+
+  it("applies watch annotations", () => {
+    const sample = new Sample();
+    const watcher = Watcher.get(sample);
+
+    runInAction(() => {
+      sample.draft = "draft";
+      sample.tags.add("a");
+    });
+    expect(watcher.changedKeys).toEqual(new Set());
+
+    runInAction(() => {
+      sample.tags = new Set(["b"]);
+    });
+    expect(watcher.changedKeys).toEqual(new Set(["tags"]));
+  });
+
+  it("applies nested annotations", () => {
+    const sample = new Sample();
+    runInAction(() => {
+      sample.items.push(new Item());
+    });
+    const watcher = Watcher.get(sample);
+
+    runInAction(() => {
+      sample.items[0].value++;
+    });
+    expect(watcher.changedKeyPaths).toEqual(new Set(["items.0.value"]));
+    expect(Watcher.get(sample.items[0]).parent).toBe(watcher);
+  });
+
+  it("applies nested annotations to validators", () => {
+    const sample = new Sample();
+    runInAction(() => {
+      sample.items.push(new Item());
+    });
+    const validator = Validator.get(sample);
+    Validator.get(sample.items[0]).updateErrors(Symbol(), (builder) => {
+      builder.invalidate("value", "invalid");
+    });
+    expect(validator.invalidKeyPaths).toEqual(new Set(["items.0.value"]));
+  });
+
+  it("applies watch.equals annotations", () => {
+    const target = observable({ value: 1 });
+    makeSentinel(target, { value: watch.equals((a: number, b: number) => a % 10 === b % 10) });
+    const watcher = Watcher.get(target);
+
+    runInAction(() => {
+      target.value = 11;
+    });
+    expect(watcher.changed).toBe(false);
+
+    runInAction(() => {
+      target.value = 2;
+    });
+    expect(watcher.changed).toBe(true);
+  });
+
+  it("annotates instances of third-party classes", () => {
+    class ThirdParty {
+      @observable field = 0;
+      @observable ignored = 0;
+
+      constructor() {
+        makeObservable(this);
+      }
+    }
+
+    const annotated = makeSentinel(new ThirdParty(), { ignored: unwatch });
+    const plain = new ThirdParty();
+    const annotatedWatcher = Watcher.get(annotated);
+    const plainWatcher = Watcher.get(plain);
+
+    runInAction(() => {
+      annotated.field++;
+      annotated.ignored++;
+      plain.field++;
+      plain.ignored++;
+    });
+    expect(annotatedWatcher.changedKeys).toEqual(new Set(["field"]));
+    expect(plainWatcher.changedKeys).toEqual(new Set(["field", "ignored"]));
+  });
+
+  it("inherits the annotations declared by decorators", () => {
+    class Base {
+      @watch.ref @observable field1 = new Set<string>();
+      @observable field2 = new Set<string>();
+
+      constructor() {
+        makeObservable(this);
+      }
+    }
+
+    const sample = makeSentinel(new Base(), { field2: watch.ref });
+    const watcher = Watcher.get(sample);
+    runInAction(() => {
+      sample.field1.add("a");
+      sample.field2.add("a");
+    });
+    expect(watcher.changed).toBe(false);
+    expect(getAnnotationProcessor(sample)).not.toBe(getAnnotationProcessor(Base.prototype));
+  });
+
+  it("supports symbol keys", () => {
+    const key = Symbol("key");
+    const target = observable({ [key]: 0, other: 0 });
+    makeSentinel(target, { [key]: unwatch });
+    const watcher = Watcher.get(target);
+
+    runInAction(() => {
+      target[key]++;
+      target.other++;
+    });
+    expect(watcher.changedKeys).toEqual(new Set(["other"]));
+  });
+
+  it("supports additional keys", () => {
+    class Sample {
+      @observable private field = 0;
+
+      constructor() {
+        makeObservable(this);
+        makeSentinel<Sample, "field">(this, { field: unwatch });
+      }
+
+      increment() {
+        this.field++;
+      }
+    }
+
+    const sample = new Sample();
+    const watcher = Watcher.get(sample);
+    runInAction(() => sample.increment());
+    expect(watcher.changed).toBe(false);
+  });
+
+  it("skips undefined annotations", () => {
+    const target = observable({ value: 0 });
+    makeSentinel(target, { value: undefined });
+    const watcher = Watcher.get(target);
+    runInAction(() => {
+      target.value++;
+    });
+    expect(watcher.changed).toBe(true);
+  });
+
+  it("throws an error for missing properties", () => {
+    expect(() => {
+      makeSentinel<{ value?: number }>({}, { value: watch });
+    }).toThrowErrorMatchingInlineSnapshot(`[TypeError: annotations: Property not found: value]`);
+    expect(() => {
+      // @ts-expect-error - unknown key
+      makeSentinel({ value: 0 }, { other: watch });
+    }).toThrowErrorMatchingInlineSnapshot(`[TypeError: annotations: Property not found: other]`);
+  });
+
+  it("throws an error for unsupported annotations", () => {
+    expect(() => {
+      // @ts-expect-error - not an annotation
+      makeSentinel({ value: 0 }, { value: observable });
+    }).toThrowErrorMatchingInlineSnapshot(`[TypeError: annotation: Expected a property-like annotation for "value"]`);
+    expect(() => {
+      // @ts-expect-error - a factory of annotations
+      makeSentinel({ value: 0 }, { value: watch.equals });
+    }).toThrowErrorMatchingInlineSnapshot(`[TypeError: annotation: Expected a property-like annotation for "value"]`);
+  });
+});
@@ -0,0 +1,65 @@
+import { applyPropertyLikeAnnotation, PropertyLikeAnnotation } from "./annotationProcessor";
+
+/**
+ * Annotate a target object without decorators
+ *
+ * It's the counterpart of MobX's `makeObservable(target, annotations)` for the annotations of this library,
+ * such as `nested`, `watch`, and `unwatch`.
+ * The annotations are registered in the same way as decorators,
+ * so `Watcher`, `Validator`, and `@nested` behave as if the properties were decorated.
+ *
+ * @example
+ * ```typescript
+ * class Sample {
+ *   items: Item[] = [];
+ *   draft = "";
+ *   tags = new Set<string>();
+ *
+ *   constructor() {
+ *     makeObservable(this, { items: observable, draft: observable, tags: observable });
+ *     makeSentinel(this, { items: nested, draft: unwatch, tags: watch.ref });
+ *   }
+ * }
+ *
+ * // Third-party classes can be annotated per instance
+ * const model = makeSentinel(new ThirdPartyModel(), { field: watch });
+ * ```
+ *
+ * @remarks
+ * - Call `makeSentinel` in the constructor, before getting the `Watcher` or `Validator` of the target.
+ *   Annotations applied after that are ignored by the existing instances.
+ * - Annotations are applied to the target object itself, inheriting the ones declared by decorators.
+ * - Use `AdditionalKeys` to annotate protected or private members (except `#private` fields),
+ *   same as `makeObservable`.
+ *
+ * @param target The target object
+ * @param annotations The annotations keyed by the property keys
+ *
+ * @returns The target object
+ *
+ * @throws TypeError if the property does not exist or the annotation is not supported
+ */
+export function makeSentinel<T extends object, AdditionalKeys extends PropertyKey = never>(
+  target: T,
+  annotations: makeSentinel.AnnotationsMap<T, NoInfer<AdditionalKeys>>
+): T {
+  for (const key of Reflect.ownKeys(annotations)) {
+    const annotation = (annotations as Record<string | symbol, PropertyLikeAnnotation | undefined>)[key];
+    if (!annotation) continue;
+    if (!(key in target)) {
+      throw new TypeError(`annotations: Property not found: ${String(key)}`);
+    }
+    applyPropertyLikeAnnotation(target, key, annotation);
+  }
+  return target;
+}
+
+export namespace makeSentinel {
+  /** Annotation such as `nested`, `watch.ref`, and `unwatch` */
+  export type Annotation = PropertyLikeAnnotation;
+
+  /** Annotations keyed by the property keys */
+  export type AnnotationsMap<T, AdditionalKeys extends PropertyKey> = {
+    [P in keyof T]?: Annotation;
+  } & Record<AdditionalKeys, Annotation>;
+}
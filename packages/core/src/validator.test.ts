@@ -318,6 +318,33 @@ describe("Validator", () => {
       expect(validator.getErrorMessages("field1" as KeyPath)).toEqual(new Set(["invalid1"]));
       expect(validator.getErrorMessages("field2" as KeyPath)).toEqual(new Set(["invalid2", "invalid3"]));
     });
+
+    it("returns error messages for symbol and number keys", () => {
+      const symbolKey = Symbol("field");
+      const validator = Validator.get({ [symbolKey]: 0, 1: 0 });
+      validator.updateErrors(Symbol(), (builder) => {
+        builder.invalidate(symbolKey, "invalid1");
+        builder.invalidate(1, "invalid2");
+      });
+      expect(validator.getErrorMessages(KeyPath.build(symbolKey))).toEqual(new Set(["invalid1"]));
+      expect(validator.getErrorMessages(KeyPath.build(1))).toEqual(new Set(["invalid2"]));
+      expect(validator.invalidKeys).toEqual(new Set([KeyPath.build(symbolKey), "1"]));
+    });
+
+    test("a validator of a specific type is assignable to a validator of unknown", () => {
+      expectTypeOf<Validator<{ theme: { color: string } }>>().toMatchTypeOf<Validator<unknown>>();
+    });
+
+    it("returns error messages for typed deep key paths", () => {
+      const target = { theme: { color: "red" } };
+      const validator = Validator.get(target);
+      validator.updateErrors(Symbol(), (builder) => {
+        builder.invalidateKeyPath(KeyPath.of<typeof target>()("theme", "color"), "invalid");
+      });
+      expect(validator.getErrorMessages(KeyPath.of<typeof target>()("theme", "color"))).toEqual(new Set(["invalid"]));
+      // @ts-expect-error - Typo
+      expect(validator.getErrorMessages(KeyPath.of<typeof target>()("theme", "colr"))).toEqual(new Set());
+    });
   });
 
   describe("#hasErrors", () => {
@@ -439,6 +466,51 @@ describe("Validator", () => {
       return validators;
     };
 
+    describe("Search with a pattern", () => {
+      it("returns errors matching the pattern", () => {
+        const env = setupEnv();
+        expect(buildErrorMap(env["parent"].findErrors("**.grandchildren.*.aaa" as KeyPath))).toEqual(
+          new Map([
+            ["child.grandchildren.0.aaa", ["invalid at parent.child.grandchildren.0.aaa"]],
+            ["children.0.grandchildren.0.aaa", ["invalid at parent.children.0.grandchildren.0.aaa"]],
+          ])
+        );
+      });
+
+      it("matches exactly one component with a wildcard", () => {
+        const env = setupEnv();
+        expect(env["parent"].getErrorMessages("*.grandchildren.*.aaa" as KeyPath)).toEqual(
+          new Set(["invalid at parent.child.grandchildren.0.aaa"])
+        );
+      });
+
+      it("returns errors under the matching key paths with prefix match", () => {
+        const env = setupEnv();
+        expect(buildErrorMap(env["parent"].findErrors("children.*" as KeyPath, true))).toEqual(
+          new Map([
+            ["children.0", ["invalid self at parent.children.0"]],
+            ["children.0.aa", ["invalid at parent.children.0.aa"]],
+            ["children.0.bb", ["invalid at parent.children.0.bb"]],
+            ["children.0.grandchildren.0", ["invalid self at parent.children.0.grandchildren.0"]],
+            ["children.0.grandchildren.0.aaa", ["invalid at parent.children.0.grandchildren.0.aaa"]],
+            ["children.0.grandchildren.0.bbb", ["invalid at parent.children.0.grandchildren.0.bbb"]],
+          ])
+        );
+      });
+
+      it("returns errors with globstars", () => {
+        const env = setupEnv();
+        expect(env["parent"].getErrorMessages("child.**.bbb" as KeyPath)).toEqual(
+          new Set([
+            "invalid at parent.child.(arrayHoist).0.bbb",
+            "invalid at parent.child.grandchild.bbb",
+            "invalid at parent.child.grandchildren.0.bbb",
+          ])
+        );
+        expect(env["parent"].hasErrors("*.*.ccc" as KeyPath)).toBe(false);
+      });
+    });
+
     describe("Search with a self path", () => {
       it("returns an empty iterator when there are no errors", () => {
         const env = setupEnv({ clean: true });
@@ -1215,6 +1287,109 @@ describe("Validator", () => {
       await env.waitForReactionState(0);
     });
   });
+
+  describe("#dispose", () => {
+    afterEach(() => {
+      vi.unstubAllEnvs();
+    });
+
+    it("removes all handlers and errors", async () => {
+      const env = setupEnv({ syncHandler: true });
+      env.validator.updateErrors(Symbol(), (builder) => {
+        builder.invalidate("field2", "invalid");
+      });
+
+      env.validator.dispose();
+      expect(env.validator.isDisposed).toBe(true);
+      expect(env.validator.invalidKeyPathCount).toBe(0);
+
+      runInAction(() => {
+        env.model.field1 = -1;
+      });
+      expect(env.validator.reactionState).toBe(0);
+      expect(env.getReactionCount()).toBe(0);
+    });
+
+    it("cancels pending sync validations", async () => {
+      const env = setupEnv({ syncHandler: true });
+
+      runInAction(() => {
+        env.model.field1 = -1;
+      });
+      expect(env.validator.reactionState).toBe(1);
+
+      env.validator.dispose();
+      expect(env.validator.reactionState).toBe(0);
+      await new Promise((resolve) => setTimeout(resolve, Validator.defaultDelayMs + 10));
+      expect(env.getReactionCount()).toBe(0);
+      expect(env.validator.isValid).toBe(true);
+    });
+
+    it("aborts running async validations", async () => {
+      const env = setupEnv({ asyncHandler: true });
+
+      runInAction(() => {
+        env.model.field1 = -1;
+      });
+      await env.waitForAsyncState(1);
+      env.validator.dispose();
+      expect(env.validator.asyncState).toBe(0);
+      expect(env.validator.isValidating).toBe(false);
+      expect(env.timeline).toContain("job aborted 1");
+    });
+
+    it("disposes nested validators", () => {
+      class Parent {
+        @nested @observable child = new Sample();
+
+        constructor() {
+          makeObservable(this);
+        }
+      }
+
+      const parent = new Parent();
+      const validator = Validator.get(parent);
+      validator.dispose();
+      expect(Validator.get(parent.child).isDisposed).toBe(true);
+    });
+
+    it("warns once and ignores new handlers after disposal", () => {
+      const env = setupEnv();
+      const warn = vi.spyOn(console, "warn").mockImplementation(() => {});
+      const handler = vi.fn();
+
+      env.validator.dispose();
+      env.validator.addSyncHandler(handler);
+      env.validator.addSyncHandler(handler);
+      expect(handler).not.toHaveBeenCalled();
+      expect(warn).toHaveBeenCalledTimes(1);
+      expect(warn).toHaveBeenCalledWith(expect.stringMatching(/has been disposed/));
+      warn.mockRestore();
+    });
+
+    it("ignores resets after disposal", () => {
+      const env = setupEnv();
+      const warn = vi.spyOn(console, "warn").mockImplementation(() => {});
+
+      env.validator.dispose();
+      env.validator.reset();
+      expect(warn).toHaveBeenCalledWith("Validator#reset: The validator has been disposed");
+      warn.mockRestore();
+    });
+
+    it("does not warn but ignores new handlers in production", () => {
+      vi.stubEnv("NODE_ENV", "production");
+      const env = setupEnv();
+      const warn = vi.spyOn(console, "warn").mockImplementation(() => {});
+      const handler = vi.fn();
+
+      env.validator.dispose();
+      env.validator.addSyncHandler(handler);
+      expect(handler).not.toHaveBeenCalled();
+      expect(warn).not.toHaveBeenCalled();
+      warn.mockRestore();
+    });
+  });
 });
 
 describe("Nested validations", () => {
@@ -1397,4 +1572,160 @@ describe("Nested validations", () => {
     // Now parent should also be done
     expect(parentValidator.isValidating).toBe(false);
   });
+
+  test("errors of @nested.keyed elements stay attached when the elements are reordered", () => {
+    class Row {
+      @observable qty = 0;
+
+      constructor(readonly id: string) {
+        makeObservable(this);
+      }
+    }
+    class Order {
+      @nested.keyed((row: Row) => row.id) @observable rows = [new Row("a"), new Row("b")];
+
+      constructor() {
+        makeObservable(this);
+      }
+    }
+    const order = new Order();
+    const validator = Validator.get(order);
+    Validator.get(order.rows[1]).updateErrors(Symbol(), (b) => {
+      b.invalidate("qty", "invalid");
+    });
+    expect(validator.invalidKeyPaths).toEqual(new Set(["rows.b.qty"]));
+
+    runInAction(() => order.rows.reverse());
+    expect(validator.invalidKeyPaths).toEqual(new Set(["rows.b.qty"]));
+    expect(validator.getErrorMessages("rows.b.qty" as KeyPath)).toEqual(new Set(["invalid"]));
+  });
+
+  test("errors of @nested.record entries are collected under their keys", () => {
+    class Order {
+      @nested.record @observable byId: Record<string, Sample> = { a: new Sample() };
+
+      constructor() {
+        makeObservable(this);
+      }
+    }
+    const order = new Order();
+    const validator = Validator.get(order);
+
+    Validator.get(order.byId.a).updateErrors(Symbol(), (b) => {
+      b.invalidate("field", "invalid");
+    });
+    expect(validator.invalidKeyPaths).toEqual(new Set(["byId.a.field"]));
+    expect(validator.getErrorMessages("byId.a.field" as KeyPath)).toEqual(new Set(["invalid"]));
+  });
+
+  test("nested validators know their parent, root, and key path from the root", () => {
+    const { nested, nestedValidator, sampleValidator, arrayValidator0 } = setupEnv();
+
+    expect(nestedValidator.parent).toBeNull();
+    expect(nestedValidator.root).toBe(nestedValidator);
+    expect(sampleValidator.parent).toBe(nestedValidator);
+    expect(arrayValidator0.root).toBe(nestedValidator);
+    expect(arrayValidator0.keyPathFromRoot).toBe("array.0");
+
+    runInAction(() => {
+      nested.array.unshift(new Sample());
+    });
+    expect(arrayValidator0.keyPathFromRoot).toBe("array.1");
+
+    nestedValidator.dispose();
+    expect(sampleValidator.parent).toBeNull();
+  });
+
+  test("errors of a shared nested object are collected under each key path", () => {
+    class Order {
+      @nested @observable main: Sample;
+      @nested @observable others: Sample[];
+
+      constructor(sample: Sample) {
+        makeObservable(this);
+        this.main = sample;
+        this.others = [sample];
+      }
+    }
+    const sample = new Sample();
+    const validator = Validator.get(new Order(sample));
+
+    Validator.get(sample).updateErrors(Symbol(), (b) => {
+      b.invalidate("field", "invalid");
+    });
+    expect(validator.invalidKeyPaths).toEqual(new Set(["main.field", "others.0.field"]));
+  });
+
+  describe("cycles", () => {
+    class Node {
+      @nested @observable next: Node | null = null;
+
+      constructor() {
+        makeObservable(this);
+      }
+    }
+
+    afterEach(() => {
+      vi.unstubAllEnvs();
+    });
+
+    test("a reference back to an ancestor throws an error", () => {
+      const error = vi.spyOn(console, "error");
+      const node = new Node();
+      const validator = Validator.get(node);
+
+      runInAction(() => {
+        node.next = new Node();
+        node.next.next = node;
+      });
+      expect(() => Array.from(validator.findErrors(KeyPath.Self, true))).toThrow(
+        'nested: Cycle detected at "next.next"'
+      );
+      expect(() => validator.invalidKeyPaths).toThrow('nested: Cycle detected at "next.next"');
+      expect(() => validator.isValidating).toThrow('nested: Cycle detected at "next.next"');
+      expect(error).not.toHaveBeenCalled();
+      error.mockRestore();
+    });
+
+    test("a reference back to an ancestor is skipped in production", () => {
+      vi.stubEnv("NODE_ENV", "production");
+      const node = new Node();
+      const validator = Validator.get(node);
+
+      runInAction(() => {
+        node.next = new Node();
+        node.next.next = node;
+      });
+      Validator.get(node.next!).updateErrors(Symbol(), (b) => {
+        b.invalidate("next", "invalid");
+      });
+      expect(Array.from(validator.findErrors(KeyPath.Self, true), ([keyPath]) => keyPath)).toEqual(["next.next"]);
+      expect(validator.invalidKeyPaths).toEqual(new Set(["next.next"]));
+    });
+
+    test("values in a cycle do not depend on the validator read first in production", () => {
+      vi.stubEnv("NODE_ENV", "production");
+      const a = new Node();
+      const b = new Node();
+      runInAction(() => {
+        a.next = b;
+        b.next = a;
+      });
+      const validatorA = Validator.get(a);
+      const validatorB = Validator.get(b);
+
+      // Cache the values of the cycle starting from each validator in turn
+      autorun(() => {
+        void validatorB.invalidKeyPaths;
+        void validatorA.invalidKeyPaths;
+      });
+
+      validatorB.updateErrors(Symbol(), (b) => {
+        b.invalidate("next", "invalid");
+      });
+      expect(validatorB.isValid).toBe(false);
+      expect(validatorA.isValid).toBe(false);
+      expect(validatorA.invalidKeyPaths).toEqual(new Set(["next.next"]));
+    });
+  });
 });
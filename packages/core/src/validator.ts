@@ -1,12 +1,30 @@
 import { action, comparer, computed, IEqualsComparer, makeObservable, observable, reaction, runInAction } from "mobx";
 import { v4 as uuidV4 } from "uuid";
 import { ValidationError, ValidationErrorMapBuilder } from "./error";
-import { StandardNestedFetcher } from "./nested";
+import { NestedTraversal, StandardNestedFetcher } from "./nested";
+import { NestedAggregator } from "./nestedAggregator";
 import { KeyPath, ReadonlyKeyPathMultiMap } from "./keyPath";
 import { AsyncJob } from "./asyncJob";
+import { createDisposedWarning } from "./disposal";
 
 const validatorKey = Symbol("validator");
 const internalToken = Symbol("validator.internal");
+const warnIfDisposed = createDisposedWarning("Validator", "validator");
+
+/** Get the validator of the target unless it does not exist or is disposed */
+const findValidator = (target: object): Validator<any> | null => {
+  const validator: Validator<any> | undefined = (target as any)[validatorKey];
+  return validator && !validator.isDisposed ? validator : null;
+};
+
+/** Create a traversal of nested validators, observing their nested instances */
+const createTraversal = () => new NestedTraversal<Validator<any>>((v) => v.nested);
+
+/** Recursive traversals of nested validators, to detect cycles */
+const traversals = Object.freeze({
+  invalidKeyPaths: createTraversal(),
+  isValidating: createTraversal(),
+});
 
 /**
  * Make a target object validatable
@@ -80,10 +98,15 @@ export class Validator<T> {
   readonly #errors = observable.map<symbol, ReadonlyKeyPathMultiMap<ValidationError>>([], {
     equals: comparer.structural,
   });
+  readonly #target: object;
   readonly #nestedFetcher: StandardNestedFetcher<Validator<any>>;
+  readonly #nestedInvalidKeyPaths: NestedAggregator<Validator<any>, ReadonlySet<KeyPath>>;
   readonly #reactionTimerIds = observable.map<symbol, number>();
   readonly #reactionResets = new Map<symbol, () => void>();
   readonly #jobs = observable.set<AsyncJob<any>>();
+  readonly #handlerDisposers = new Map<symbol, () => void>();
+  readonly #disposeNestedFetch: () => void;
+  #isDisposed = false;
 
   /**
    * Get a validator instance for the target object.
@@ -113,8 +136,7 @@ export class Validator<T> {
 
     let validator: Validator<T> | null = (target as any)[validatorKey] ?? null;
     if (!validator) {
-      validator = new this(internalToken, target);
-      Object.defineProperty(target, validatorKey, { value: validator });
+      validator = new this(internalToken, target); // Registered to the target in the constructor
     }
     return validator;
   }
@@ -124,7 +146,20 @@ export class Validator<T> {
       throw new Error("private constructor");
     }
 
+    // Register first, so that nested objects referring back to the target get this instance
+    Object.defineProperty(target, validatorKey, { value: this });
+
+    this.#target = target;
     this.#nestedFetcher = new StandardNestedFetcher(target, (entry) => Validator.getSafe(entry.data));
+    this.#nestedInvalidKeyPaths = NestedAggregator.keyPaths(
+      () => this.#nestedFetcher.chunks(),
+      (v, keyPath) => traversals.invalidKeyPaths.visit(v, keyPath, () => v.invalidKeyPaths) ?? []
+    );
+    // Keep the nested objects fetched, so that their validators find this one as the parent before it reads them
+    this.#disposeNestedFetch = reaction(
+      () => this.#nestedFetcher.dataMap,
+      () => {}
+    );
     makeObservable(this);
   }
 
@@ -166,21 +201,45 @@ export class Validator<T> {
    * The key paths that have errors
    *
    * Keys of nested objects are included.
+   *
+   * @remarks
+   * Key paths of nested objects are aggregated incrementally,
+   * so a change in one of many nested objects does not iterate all of them.
    */
   @computed.struct
   get invalidKeyPaths(): ReadonlySet<KeyPath> {
+    const result = traversals.invalidKeyPaths.run(
+      this,
+      () => {
+        const result = this.#ownInvalidKeyPaths();
+        for (const keyPath of this.#nestedInvalidKeyPaths.value) {
+          result.add(keyPath);
+        }
+        return result;
+      },
+      () =>
+        NestedTraversal.collect<Validator<any>, Set<KeyPath>>(this, (v, nested) => {
+          const result = v.#ownInvalidKeyPaths();
+          for (const entry of v.#nestedFetcher) {
+            for (const keyPath of nested(entry.data) ?? []) {
+              result.add(KeyPath.build(entry.keyPath, keyPath));
+            }
+          }
+          return result;
+        })
+    );
+    return Object.freeze(result);
+  }
+
+  /** The key paths that have errors, excluding the ones of nested validators */
+  #ownInvalidKeyPaths() {
     const result = new Set<KeyPath>();
     for (const errors of this.#errors.values()) {
       for (const [keyPath] of errors) {
         result.add(keyPath);
       }
     }
-    for (const [keyPath, validator] of this.nested) {
-      for (const relativeKeyPath of validator.invalidKeyPaths) {
-        result.add(KeyPath.build(keyPath, relativeKeyPath));
-      }
-    }
-    return Object.freeze(result);
+    return result;
   }
 
   /** Get the first error message (including nested objects) */
@@ -192,7 +251,11 @@ export class Validator<T> {
     return null;
   }
 
-  /** Get error messages for the key path */
+  /**
+   * Get error messages for the key path
+   *
+   * Use {@link KeyPath.of} to build key paths checked against the type of the target.
+   */
   getErrorMessages(keyPath: KeyPath, prefixMatch = false) {
     const result = new Set<string>();
     for (const [, error] of this.findErrors(keyPath, prefixMatch)) {
@@ -215,16 +278,28 @@ export class Validator<T> {
    * - Can do exact or prefix matching
    * - Returns all errors that match the key path
    * - Includes errors from nested validators when using prefix match
+   * - Accepts patterns such as `items.*.price` and `address.**` (see {@link KeyPath.match}),
+   *   which are matched against the key paths of all errors including nested ones
    */
   *findErrors(searchKeyPath: KeyPath, prefixMatch = false) {
-    yield* this.#findErrors(searchKeyPath, prefixMatch, false);
+    const traversal = createTraversal(); // Lazy, so not shared with other calls
+    if (KeyPath.isPattern(searchKeyPath)) {
+      for (const [keyPath, error] of this.#findErrors(KeyPath.Self, true, false, traversal)) {
+        if (KeyPath.match(keyPath, searchKeyPath, prefixMatch)) {
+          yield [keyPath, error] as [keyPath: KeyPath, error: ValidationError];
+        }
+      }
+      return;
+    }
+    yield* this.#findErrors(searchKeyPath, prefixMatch, false, traversal);
   }
 
   /** Find errors for the key path */
   *#findErrors(
     searchKeyPath: KeyPath,
     prefixMatch: boolean,
-    exact: boolean
+    exact: boolean,
+    traversal: NestedTraversal<Validator<any>>
   ): Generator<[keyPath: KeyPath, error: ValidationError]> {
     if (KeyPath.isSelf(searchKeyPath)) {
       if (exact) {
@@ -241,20 +316,21 @@ export class Validator<T> {
         }
       }
       if (prefixMatch) {
-        for (const [keyPath, validator] of this.nested) {
-          for (const [relativeKeyPath, error] of validator.#findErrors(KeyPath.Self, true, exact)) {
-            yield [KeyPath.build(keyPath, relativeKeyPath), error];
+        for (const entry of traversal.entries(this, this.#nestedFetcher)) {
+          for (const [relativeKeyPath, error] of entry.data.#findErrors(KeyPath.Self, true, exact, traversal)) {
+            yield [KeyPath.build(entry.keyPath, relativeKeyPath), error];
           }
         }
       } else if (!exact) {
-        for (const entry of this.#nestedFetcher) {
+        for (const entry of traversal.entries(this, this.#nestedFetcher)) {
           const isSelf = entry.key === KeyPath.Self;
           const isDirectChild = entry.keyPath === entry.key; // Ignores entries with subKey (like arrays)
           if (isSelf || isDirectChild) {
             for (const [relativeKeyPath, error] of entry.data.#findErrors(
               KeyPath.Self,
               false,
-              !isSelf || !isDirectChild
+              !isSelf || !isDirectChild,
+              traversal
             )) {
               yield [KeyPath.build(entry.keyPath, relativeKeyPath), error];
             }
@@ -269,13 +345,13 @@ export class Validator<T> {
         }
       }
       ancestorLoop: for (const ancestorKeyPath of KeyPath.getAncestors(searchKeyPath, true)) {
-        for (const entry of this.#nestedFetcher.getForKey(ancestorKeyPath)) {
+        for (const entry of traversal.entries(this, this.#nestedFetcher.getForKey(ancestorKeyPath))) {
           const childKeyPath =
             prefixMatch && entry.key !== entry.keyPath && KeyPath.getRelative(entry.keyPath, entry.key)
               ? KeyPath.Self
               : KeyPath.getRelative(searchKeyPath, entry.keyPath);
           if (!childKeyPath) continue;
-          for (const [relativeKeyPath, error] of entry.data.#findErrors(childKeyPath, prefixMatch, exact)) {
+          for (const [relativeKeyPath, error] of entry.data.#findErrors(childKeyPath, prefixMatch, exact, traversal)) {
             yield [KeyPath.build(entry.keyPath, relativeKeyPath), error];
           }
           break ancestorLoop;
@@ -308,12 +384,31 @@ export class Validator<T> {
 
   /** Whether the validator is computing errors (including nested validators) */
   @computed
-  get isValidating() {
+  get isValidating(): boolean {
+    return traversals.isValidating.run(
+      this,
+      () =>
+        this.#isValidating((entry) =>
+          traversals.isValidating.visit(entry.data, entry.keyPath, () => entry.data.isValidating)
+        ),
+      () =>
+        NestedTraversal.collect<Validator<any>, boolean>(this, (v, nested) =>
+          v.#isValidating((entry) => nested(entry.data))
+        )
+    );
+  }
+
+  /**
+   * Whether the validator is computing errors
+   *
+   * @param nested - A function that returns whether a nested validator is computing errors, or `undefined` if skipped
+   */
+  #isValidating(nested: (entry: StandardNestedFetcher.Entry<Validator<any>>) => boolean | undefined) {
     if (this.reactionState > 0 || this.asyncState > 0) {
       return true;
     }
-    for (const [, validator] of this.nested) {
-      if (validator.isValidating) {
+    for (const entry of this.#nestedFetcher) {
+      if (nested(entry)) {
         return true;
       }
     }
@@ -325,6 +420,27 @@ export class Validator<T> {
     return this.#nestedFetcher.dataMap;
   }
 
+  /**
+   * The parent validator that owns this validator via `@nested`, or `null` if this is a root
+   *
+   * @remarks
+   * - Known only while the parent validator exists and is not disposed
+   * - Returns the first one if shared by multiple parents, which {@link root} and {@link keyPathFromRoot} follow
+   */
+  get parent(): Validator<any> | null {
+    return StandardNestedFetcher.getParent(this.#target, findValidator)?.parent ?? null;
+  }
+
+  /** The topmost ancestor validator, or this validator itself if it has no parent */
+  get root(): Validator<any> {
+    return StandardNestedFetcher.getRoot<Validator<any>>(this, this.#target, findValidator);
+  }
+
+  /** The key path of this validator from the {@link root} (e.g., `items.0`) */
+  get keyPathFromRoot(): KeyPath {
+    return StandardNestedFetcher.getKeyPathFromRoot(this.#target, findValidator);
+  }
+
   /**
    * Reset the validator
    *
@@ -333,6 +449,7 @@ export class Validator<T> {
    */
   @action
   reset() {
+    if (warnIfDisposed(this, "reset")) return;
     this.#reactionTimerIds.clear();
     for (const reset of this.#reactionResets.values()) {
       reset();
@@ -352,7 +469,8 @@ export class Validator<T> {
    */
   @action
   updateErrors(key: symbol, handler: Validator.InstantHandler<T>) {
-    const builder = new ValidationErrorMapBuilder();
+    if (warnIfDisposed(this, "updateErrors")) return () => {};
+    const builder = new ValidationErrorMapBuilder<T>();
     handler(builder);
     const result = ValidationErrorMapBuilder.build(builder);
     if (result.size > 0) {
@@ -378,12 +496,13 @@ export class Validator<T> {
    * - Changes are throttled by default delay
    */
   addSyncHandler(handler: Validator.SyncHandler<T>, opt?: Validator.HandlerOptions) {
+    if (warnIfDisposed(this, "addSyncHandler")) return () => {};
     const key = Symbol();
     return this.#createReaction({
       key,
       opt,
       expr: () => {
-        const builder = new ValidationErrorMapBuilder();
+        const builder = new ValidationErrorMapBuilder<T>();
         handler(builder);
         return ValidationErrorMapBuilder.build(builder);
       },
@@ -419,12 +538,13 @@ export class Validator<T> {
     handler: Validator.AsyncHandler<T, NoInfer<Expr>>,
     opt?: Validator.HandlerOptions<NoInfer<Expr>>
   ) {
+    if (warnIfDisposed(this, "addAsyncHandler")) return () => {};
     const delayMs = opt?.delayMs ?? Validator.defaultDelayMs;
 
     const key = Symbol();
     const job = new AsyncJob<Expr>({
       handler: async (expr, abortSignal) => {
-        const builder = new ValidationErrorMapBuilder();
+        const builder = new ValidationErrorMapBuilder<T>();
         try {
           await handler(expr, builder, abortSignal);
         } finally {
@@ -491,7 +611,8 @@ export class Validator<T> {
       }
     );
 
-    return (): void => {
+    const disposeHandler = (): void => {
+      this.#handlerDisposers.delete(args.key);
       dispose();
       const timerId = this.#reactionTimerIds.get(args.key);
       if (timerId) {
@@ -507,6 +628,40 @@ export class Validator<T> {
         }
       });
     };
+    this.#handlerDisposers.set(args.key, disposeHandler);
+    return disposeHandler;
+  }
+
+  /** Whether the validator has been disposed */
+  get isDisposed() {
+    return this.#isDisposed;
+  }
+
+  /**
+   * Remove all handlers and release all resources
+   *
+   * @remarks
+   * - Disposes all reactions, pending timers, and async jobs
+   * - Clears all errors
+   * - Disposes all nested validators and unlinks them from this validator (see {@link parent}),\
+   *   except the ones shared with other parents
+   * - Calling this method more than once has no effect
+   */
+  @action
+  dispose() {
+    if (this.#isDisposed) return;
+    this.#isDisposed = true;
+
+    for (const dispose of Array.from(this.#handlerDisposers.values())) {
+      dispose();
+    }
+    this.#disposeNestedFetch();
+    this.#errors.clear();
+
+    for (const entry of this.#nestedFetcher) {
+      if (entry.data.parent) continue; // Still owned by another parent
+      entry.data.dispose();
+    }
   }
 }
 
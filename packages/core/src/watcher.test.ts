@@ -1,4 +1,4 @@
-import { computed, makeObservable, observable, runInAction } from "mobx";
+import { autorun, computed, makeObservable, observable, runInAction } from "mobx";
 import { Watcher, debugWatcher, unwatch, watch } from "./watcher";
 import { nested } from "./nested";
 import { KeyPath } from "./keyPath";
@@ -86,6 +86,986 @@ describe("Watcher", () => {
       expect(watcher.changed).toBe(false);
     });
   });
+
+  describe("#resetKeyPath", () => {
+    class Sample {
+      @observable field1 = 0;
+      @observable field2 = 0;
+      @observable tags = ["a", "b"];
+      @watch.deep @observable theme = { color: "red", size: 1 };
+      @nested @observable other = new Other();
+
+      constructor() {
+        makeObservable(this);
+      }
+    }
+
+    class Other {
+      @observable value = 0;
+      @observable text = "";
+
+      constructor() {
+        makeObservable(this);
+      }
+    }
+
+    it("resets the key path only", () => {
+      const sample = new Sample();
+      const watcher = Watcher.get(sample);
+
+      runInAction(() => {
+        sample.field1++;
+        sample.field2++;
+      });
+      watcher.resetKeyPath(KeyPath.build("field1"));
+      expect(watcher.changedKeyPaths).toEqual(new Set(["field2"]));
+      expect(watcher.changed).toBe(true);
+      expect(watcher.changedTick).toBe(2n);
+
+      // The current value is the new baseline
+      runInAction(() => sample.field1--);
+      expect(watcher.changedKeyPaths).toEqual(new Set(["field1", "field2"]));
+    });
+
+    it("resets the changed tick when no changes remain", () => {
+      const sample = new Sample();
+      const watcher = Watcher.get(sample);
+
+      runInAction(() => sample.field1++);
+      watcher.resetKeyPath(KeyPath.build("field1"));
+      expect(watcher.changed).toBe(false);
+      expect(watcher.changedTick).toBe(0n);
+    });
+
+    it("resets key paths of nested watchers", () => {
+      const sample = new Sample();
+      const watcher = Watcher.get(sample);
+      const otherWatcher = Watcher.get(sample.other);
+
+      runInAction(() => {
+        sample.other.value++;
+        sample.other.text = "a";
+      });
+      watcher.resetKeyPath(KeyPath.build("other.value"));
+      expect(watcher.changedKeyPaths).toEqual(new Set(["other.text"]));
+
+      watcher.resetKeyPath(KeyPath.build("other.text"));
+      expect(watcher.changed).toBe(false);
+      expect(watcher.changedTick).toBe(0n);
+      expect(otherWatcher.changed).toBe(false);
+      expect(otherWatcher.changedTick).toBe(0n);
+    });
+
+    it("resets key paths under the key path with prefix", () => {
+      const sample = new Sample();
+      const watcher = Watcher.get(sample);
+
+      runInAction(() => {
+        sample.field1++;
+        sample.other.value++;
+        sample.other.text = "a";
+      });
+      watcher.resetKeyPath(KeyPath.build("other"));
+      expect(watcher.changedKeyPaths).toEqual(new Set(["field1", "other.value", "other.text"]));
+
+      watcher.resetKeyPath(KeyPath.build("other"), { prefix: true });
+      expect(watcher.changedKeyPaths).toEqual(new Set(["field1"]));
+    });
+
+    it("resets key paths inside @watch.deep keys", () => {
+      const sample = new Sample();
+      const watcher = Watcher.get(sample);
+
+      runInAction(() => (sample.theme = { color: "blue", size: 2 }));
+      watcher.resetKeyPath(KeyPath.build("theme.color"));
+      expect(watcher.changedKeyPaths).toEqual(new Set(["theme.size"]));
+      expect(watcher.getChanges()).toEqual(new Map([["theme.size", { oldValue: 1, newValue: 2 }]]));
+
+      watcher.resetKeyPath(KeyPath.build("theme.size"));
+      expect(watcher.changedKeyPaths).toEqual(new Set());
+      expect(watcher.changed).toBe(false);
+    });
+
+    it("resets the collection for a key path of a changed element", () => {
+      const sample = new Sample();
+      const watcher = Watcher.get(sample);
+
+      runInAction(() => {
+        sample.field1++;
+        sample.tags.push("c");
+      });
+      expect(watcher.changedKeyPaths).toEqual(new Set(["field1", "tags.2"]));
+
+      watcher.resetKeyPath(KeyPath.build("tags.2"));
+      expect(watcher.changedKeyPaths).toEqual(new Set(["field1"]));
+    });
+
+    it("resets all with a self path and prefix", () => {
+      const sample = new Sample();
+      const watcher = Watcher.get(sample);
+
+      runInAction(() => {
+        sample.field1++;
+        sample.other.value++;
+      });
+      watcher.assumeChanged();
+      watcher.resetKeyPath(KeyPath.Self, { prefix: true });
+      expect(watcher.changed).toBe(false);
+      expect(watcher.changedTick).toBe(0n);
+    });
+  });
+
+  describe("#findChangedKeyPaths, #hasChanges", () => {
+    class Sample {
+      @observable field1 = 0;
+      @nested @observable rows = [new Row(), new Row()];
+
+      constructor() {
+        makeObservable(this);
+      }
+    }
+
+    class Row {
+      @observable qty = 0;
+      @observable price = 0;
+
+      constructor() {
+        makeObservable(this);
+      }
+    }
+
+    it("finds the changed key paths matching a pattern", () => {
+      const sample = new Sample();
+      const watcher = Watcher.get(sample);
+
+      runInAction(() => {
+        sample.field1++;
+        sample.rows[0].price++;
+        sample.rows[1].qty++;
+      });
+      expect(new Set(watcher.findChangedKeyPaths("rows.*.qty" as KeyPath))).toEqual(new Set(["rows.1.qty"]));
+      expect(new Set(watcher.findChangedKeyPaths("rows.**" as KeyPath))).toEqual(
+        new Set(["rows.0.price", "rows.1.qty"])
+      );
+      expect(watcher.hasChanges("rows.*.price" as KeyPath)).toBe(true);
+      expect(watcher.hasChanges("rows.0.qty" as KeyPath)).toBe(false);
+    });
+
+    it("finds the changed key paths under the key path with prefix match", () => {
+      const sample = new Sample();
+      const watcher = Watcher.get(sample);
+
+      runInAction(() => sample.rows[0].price++);
+      expect(watcher.hasChanges("rows.0" as KeyPath)).toBe(false);
+      expect(watcher.hasChanges("rows.0" as KeyPath, true)).toBe(true);
+    });
+
+    it("accepts typed key paths", () => {
+      const sample = new Sample();
+      const watcher = Watcher.get(sample);
+
+      runInAction(() => sample.rows[0].price++);
+      expect(watcher.hasChanges(KeyPath.of<Sample>()("rows", 0, "price"))).toBe(true);
+      // @ts-expect-error - Typo
+      expect(watcher.hasChanges(KeyPath.of<Sample>()("rows", 0, "prcie"))).toBe(false);
+    });
+  });
+
+  describe("#changedElements", () => {
+    class Sample {
+      @observable tags = ["a", "b", "c"];
+      @observable set = new Set(["a"]);
+      @observable map = new Map([["key1", "a"]]);
+      @watch.ref @observable refList = ["a"];
+      @nested @observable other = new Other();
+
+      constructor() {
+        makeObservable(this);
+      }
+    }
+
+    class Other {
+      @observable list = [1, 2];
+
+      constructor() {
+        makeObservable(this);
+      }
+    }
+
+    it("returns an empty map when nothing has changed", () => {
+      const sample = new Sample();
+      const watcher = Watcher.get(sample);
+      expect(watcher.changedElements).toEqual(new Map());
+    });
+
+    it("classifies changes of array elements", () => {
+      const sample = new Sample();
+      const watcher = Watcher.get(sample);
+
+      runInAction(() => {
+        sample.tags.splice(1, 1); // Remove "b"
+        sample.tags.unshift("c"); // Move "c"
+        sample.tags.pop();
+        sample.tags.push("d");
+      });
+      expect(sample.tags).toEqual(["c", "a", "d"]);
+      expect(watcher.changedElements).toEqual(
+        new Map([
+          [
+            "tags",
+            [
+              { type: "removed", keyPath: "tags.1", value: "b" },
+              { type: "added", keyPath: "tags.2", value: "d" },
+              { type: "moved", keyPath: "tags.0", oldKeyPath: "tags.2", value: "c" },
+            ],
+          ],
+        ])
+      );
+    });
+
+    it("classifies changes of sets and maps", () => {
+      const sample = new Sample();
+      const watcher = Watcher.get(sample);
+
+      runInAction(() => {
+        sample.set.add("b");
+        sample.map.set("key1", "b");
+        sample.map.set("key2", "c");
+      });
+      expect(watcher.changedElements).toEqual(
+        new Map([
+          ["set", [{ type: "added", keyPath: "set", value: "b" }]],
+          [
+            "map",
+            [
+              { type: "replaced", keyPath: "map.key1", oldValue: "a", newValue: "b" },
+              { type: "added", keyPath: "map.key2", value: "c" },
+            ],
+          ],
+        ])
+      );
+    });
+
+    it("includes changes of nested objects", () => {
+      const sample = new Sample();
+      const watcher = Watcher.get(sample);
+
+      runInAction(() => {
+        sample.other.list.reverse();
+      });
+      expect(watcher.changedElements).toEqual(
+        new Map([["other.list", [{ type: "moved", keyPath: "other.list.0", oldKeyPath: "other.list.1", value: 2 }]]])
+      );
+    });
+
+    it("does not include keys watched by reference", () => {
+      const sample = new Sample();
+      const watcher = Watcher.get(sample);
+
+      runInAction(() => {
+        sample.refList = ["b"];
+      });
+      expect(watcher.changedElements).toEqual(new Map());
+      expect(watcher.changedKeyPaths).toEqual(new Set(["refList"]));
+    });
+
+    it("reports the key paths of the changed elements in changedKeyPaths", () => {
+      const sample = new Sample();
+      const watcher = Watcher.get(sample);
+
+      runInAction(() => {
+        sample.tags.push("d");
+        sample.set.add("b");
+        sample.map.delete("key1");
+      });
+      expect(watcher.changedKeys).toEqual(new Set(["tags", "set", "map"]));
+      expect(watcher.changedKeyPaths).toEqual(new Set(["tags.3", "set", "map.key1"]));
+    });
+  });
+
+  describe("#getChanges", () => {
+    class Sample {
+      @observable field1 = "a";
+      @observable field2 = [1];
+      @watch.ref @observable field3 = { value: 1 };
+      @nested @observable other = new Other();
+
+      constructor() {
+        makeObservable(this);
+      }
+    }
+
+    class Other {
+      @observable value = 1;
+
+      constructor() {
+        makeObservable(this);
+      }
+    }
+
+    it("returns the baseline and current values of changed key paths", () => {
+      const sample = new Sample();
+      const watcher = Watcher.get(sample);
+      expect(watcher.getChanges()).toEqual(new Map());
+
+      const oldField3 = sample.field3;
+      runInAction(() => {
+        sample.field1 = "b";
+        sample.field2.push(2);
+        sample.field3 = { value: 1 };
+        sample.other.value = 2;
+      });
+      expect(watcher.getChanges()).toEqual(
+        new Map<string, Watcher.Change>([
+          ["field1", { oldValue: "a", newValue: "b" }],
+          ["field2", { oldValue: [1], newValue: [1, 2] }],
+          ["field3", { oldValue: oldField3, newValue: sample.field3 }],
+          ["other.value", { oldValue: 1, newValue: 2 }],
+        ])
+      );
+      expect(watcher.getChanges().get("field3" as KeyPath)?.oldValue).toBe(oldField3);
+    });
+
+    it("does not include reverted changes", () => {
+      const sample = new Sample();
+      const watcher = Watcher.get(sample);
+
+      runInAction(() => {
+        sample.field1 = "b";
+        sample.other.value = 2;
+      });
+      runInAction(() => {
+        sample.other.value = 1;
+      });
+      expect(watcher.getChanges()).toEqual(new Map([["field1", { oldValue: "a", newValue: "b" }]]));
+    });
+
+    it("returns values relative to the new baselines after reset()", () => {
+      const sample = new Sample();
+      const watcher = Watcher.get(sample);
+
+      runInAction(() => {
+        sample.field1 = "b";
+      });
+      watcher.reset();
+      expect(watcher.getChanges()).toEqual(new Map());
+
+      runInAction(() => {
+        sample.field1 = "c";
+      });
+      expect(watcher.getChanges()).toEqual(new Map([["field1", { oldValue: "b", newValue: "c" }]]));
+    });
+
+    it("reports collections as a whole instead of the changed elements in changedKeyPaths", () => {
+      class Parent {
+        @observable tags = ["a"];
+        @watch.deep @observable theme = { color: "red" };
+        @nested @observable other = new Other();
+        @nested.hoist @observable items = [new Other()];
+
+        constructor() {
+          makeObservable(this);
+        }
+      }
+
+      const parent = new Parent();
+      const watcher = Watcher.get(parent);
+      runInAction(() => {
+        parent.tags.push("b");
+        parent.theme.color = "blue";
+        parent.other.value = 2;
+        parent.items.push(new Other());
+        parent.items[0].value = 2;
+      });
+
+      expect(watcher.changedKeyPaths).toEqual(new Set(["tags.1", "theme.color", "other.value", "1", "0.value"]));
+      // "tags" covers "tags.1", while the added element of the hoisted key ("1") is not included
+      expect(new Set(watcher.getChanges().keys())).toEqual(new Set(["tags", "theme.color", "other.value", "0.value"]));
+      for (const keyPath of watcher.getChanges().keys()) {
+        expect(Array.from(watcher.changedKeyPaths).some((changed) => KeyPath.isUnder(changed, keyPath))).toBe(true);
+      }
+    });
+  });
+
+  describe("#toJsonPatch", () => {
+    class Sample {
+      @observable name = "a";
+      @observable tags = ["x"];
+      @nested @observable other = new Other();
+      @nested @observable items = [new Other(), new Other(), new Other()];
+      @nested @observable map = new Map([["key/1", new Other()]]);
+
+      constructor() {
+        makeObservable(this);
+      }
+    }
+
+    class Other {
+      @observable value = 1;
+
+      constructor() {
+        makeObservable(this);
+      }
+    }
+
+    it("returns an empty document when nothing has changed", () => {
+      const sample = new Sample();
+      const watcher = Watcher.get(sample);
+      expect(watcher.toJsonPatch()).toEqual([]);
+    });
+
+    it("replaces values of non-nested keys as a whole", () => {
+      const sample = new Sample();
+      const watcher = Watcher.get(sample);
+
+      runInAction(() => {
+        sample.name = "b";
+        sample.tags.push("y");
+      });
+      expect(watcher.toJsonPatch()).toEqual([
+        { op: "replace", path: "/name", value: "b" },
+        { op: "replace", path: "/tags", value: ["x", "y"] },
+      ]);
+    });
+
+    it("includes changes of nested objects", () => {
+      const sample = new Sample();
+      const watcher = Watcher.get(sample);
+
+      runInAction(() => {
+        sample.other.value = 2;
+        sample.items[1].value = 2;
+        sample.map.get("key/1")!.value = 2;
+      });
+      expect(watcher.toJsonPatch()).toEqual([
+        { op: "replace", path: "/other/value", value: 2 },
+        { op: "replace", path: "/items/1/value", value: 2 },
+        { op: "replace", path: "/map/key~11/value", value: 2 },
+      ]);
+    });
+
+    it("diffs elements of nested collections", () => {
+      const sample = new Sample();
+      const watcher = Watcher.get(sample);
+
+      const added = new Other();
+      runInAction(() => {
+        sample.items[2].value = 2;
+        sample.items.splice(0, 1);
+        sample.items.push(added);
+        added.value = 3; // Included in the "add" operation
+      });
+      expect(watcher.toJsonPatch()).toEqual([
+        { op: "remove", path: "/items/0" },
+        { op: "add", path: "/items/2", value: added },
+        { op: "replace", path: "/items/1/value", value: 2 },
+      ]);
+    });
+
+    it("does not include changes of replaced nested objects", () => {
+      const sample = new Sample();
+      const watcher = Watcher.get(sample);
+
+      const other = new Other();
+      runInAction(() => {
+        sample.other = other;
+        other.value = 2;
+      });
+      expect(watcher.toJsonPatch()).toEqual([{ op: "replace", path: "/other", value: other }]);
+    });
+
+    it("does not include reverted changes", () => {
+      const sample = new Sample();
+      const watcher = Watcher.get(sample);
+
+      runInAction(() => {
+        sample.name = "b";
+        sample.other.value = 2;
+      });
+      runInAction(() => {
+        sample.name = "a";
+        sample.other.value = 1;
+      });
+      expect(watcher.toJsonPatch()).toEqual([]);
+    });
+
+    it("diffs elements of hoisted collections at the root", () => {
+      class Hoisted {
+        @nested.hoist @observable list = [new Other()];
+
+        constructor() {
+          makeObservable(this);
+        }
+      }
+
+      const hoisted = new Hoisted();
+      const watcher = Watcher.get(hoisted);
+
+      const added = new Other();
+      runInAction(() => {
+        hoisted.list[0].value = 2;
+        hoisted.list.push(added);
+      });
+      expect(watcher.toJsonPatch()).toEqual([
+        { op: "add", path: "/1", value: added },
+        { op: "replace", path: "/0/value", value: 2 },
+      ]);
+    });
+  });
+
+  describe("#subscribe", () => {
+    class Sample {
+      @observable field1 = "a";
+      @watch.ref @observable field2 = { value: 1 };
+      @nested @observable other = new Other();
+      @nested @observable items = [new Other()];
+
+      constructor() {
+        makeObservable(this);
+      }
+    }
+
+    class Other {
+      @observable value = 1;
+
+      constructor() {
+        makeObservable(this);
+      }
+    }
+
+    it("emits events for changed keys", () => {
+      const sample = new Sample();
+      const watcher = Watcher.get(sample);
+      const listener = vi.fn();
+      watcher.subscribe(listener);
+
+      const now = Date.now();
+      const field2 = { value: 2 };
+      runInAction(() => {
+        sample.field1 = "b";
+        sample.field2 = field2;
+      });
+      expect(listener).toHaveBeenCalledTimes(2);
+      expect(listener).toHaveBeenNthCalledWith(1, {
+        keyPath: "field1",
+        mode: "@watch",
+        timestamp: expect.any(Number),
+        nested: false,
+        oldValue: "a",
+        newValue: "b",
+      });
+      expect(listener).toHaveBeenNthCalledWith(2, {
+        keyPath: "field2",
+        mode: "@watch.ref",
+        timestamp: expect.any(Number),
+        nested: false,
+        oldValue: { value: 1 },
+        newValue: field2,
+      });
+      expect(listener.mock.calls[0][0].timestamp).toBeGreaterThanOrEqual(now);
+    });
+
+    it("emits events for reverted changes", () => {
+      const sample = new Sample();
+      const watcher = Watcher.get(sample);
+      const listener = vi.fn();
+      watcher.subscribe(listener);
+
+      runInAction(() => (sample.field1 = "b"));
+      runInAction(() => (sample.field1 = "a"));
+      expect(listener).toHaveBeenCalledTimes(2);
+      expect(listener).toHaveBeenLastCalledWith(expect.objectContaining({ oldValue: "b", newValue: "a" }));
+      expect(watcher.changed).toBe(false);
+    });
+
+    it("relays events of nested watchers", () => {
+      const sample = new Sample();
+      const watcher = Watcher.get(sample);
+      const listener = vi.fn();
+      watcher.subscribe(listener);
+
+      runInAction(() => {
+        sample.other.value = 2;
+        sample.items[0].value = 2;
+      });
+      expect(listener).toHaveBeenCalledTimes(2);
+      expect(listener).toHaveBeenNthCalledWith(
+        1,
+        expect.objectContaining({ keyPath: "other.value", nested: true, oldValue: 1, newValue: 2 })
+      );
+      expect(listener).toHaveBeenNthCalledWith(
+        2,
+        expect.objectContaining({ keyPath: "items.0.value", nested: true, oldValue: 1, newValue: 2 })
+      );
+    });
+
+    it("follows nested watchers as they are added, moved, and removed", () => {
+      const sample = new Sample();
+      const watcher = Watcher.get(sample);
+      const listener = vi.fn();
+      watcher.subscribe(listener);
+
+      const [first] = sample.items;
+      const added = new Other();
+      runInAction(() => sample.items.unshift(added));
+      listener.mockClear();
+
+      runInAction(() => {
+        first.value = 2;
+        added.value = 2;
+      });
+      expect(listener.mock.calls.map(([event]) => event.keyPath)).toEqual(["items.1.value", "items.0.value"]);
+
+      runInAction(() => sample.items.splice(1, 1));
+      listener.mockClear();
+      runInAction(() => (first.value = 3));
+      expect(listener).not.toHaveBeenCalled();
+    });
+
+    it("emits events of hoisted keys with the self key path", () => {
+      class Hoisted {
+        @nested.hoist @observable list = [new Other()];
+
+        constructor() {
+          makeObservable(this);
+        }
+      }
+
+      const hoisted = new Hoisted();
+      const watcher = Watcher.get(hoisted);
+      const listener = vi.fn();
+      watcher.subscribe(listener);
+
+      runInAction(() => {
+        hoisted.list[0].value = 2;
+        hoisted.list.push(new Other());
+      });
+      expect(listener.mock.calls.map(([event]) => event.keyPath)).toEqual(["0.value", KeyPath.Self]);
+    });
+
+    it("does not emit events for changes inside unwatch()", () => {
+      const sample = new Sample();
+      const watcher = Watcher.get(sample);
+      const listener = vi.fn();
+      watcher.subscribe(listener);
+
+      unwatch(() => {
+        runInAction(() => {
+          sample.field1 = "b";
+          sample.other.value = 2;
+        });
+      });
+      expect(listener).not.toHaveBeenCalled();
+    });
+
+    it("stops emitting events after unsubscribing", () => {
+      const sample = new Sample();
+      const watcher = Watcher.get(sample);
+      const listener = vi.fn();
+      const unsubscribe = watcher.subscribe(listener);
+
+      unsubscribe();
+      runInAction(() => {
+        sample.field1 = "b";
+        sample.other.value = 2;
+      });
+      expect(listener).not.toHaveBeenCalled();
+    });
+  });
+
+  describe("#dispose", () => {
+    afterEach(() => {
+      vi.unstubAllEnvs();
+    });
+
+    class Sample {
+      @observable field = "a";
+      @nested @observable other = new Other();
+
+      constructor() {
+        makeObservable(this);
+      }
+    }
+
+    class Other {
+      @observable value = 1;
+
+      constructor() {
+        makeObservable(this);
+      }
+    }
+
+    it("stops detecting changes", () => {
+      const sample = new Sample();
+      const watcher = Watcher.get(sample);
+
+      watcher.dispose();
+      expect(watcher.isDisposed).toBe(true);
+      runInAction(() => (sample.field = "b"));
+      expect(watcher.changed).toBe(false);
+      expect(watcher.changedTick).toBe(0n);
+    });
+
+    it("keeps the changed state at the time of disposal", () => {
+      const sample = new Sample();
+      const watcher = Watcher.get(sample);
+
+      runInAction(() => (sample.field = "b"));
+      watcher.dispose();
+      expect(watcher.changedKeys).toEqual(new Set(["field"]));
+    });
+
+    it("disposes nested watchers", () => {
+      const sample = new Sample();
+      const watcher = Watcher.get(sample);
+
+      watcher.dispose();
+      expect(Watcher.get(sample.other).isDisposed).toBe(true);
+      runInAction(() => (sample.other.value = 2));
+      expect(watcher.changed).toBe(false);
+    });
+
+    it("stops emitting events to subscribers", () => {
+      const sample = new Sample();
+      const watcher = Watcher.get(sample);
+      const listener = vi.fn();
+      watcher.subscribe(listener);
+
+      watcher.dispose();
+      runInAction(() => {
+        sample.field = "b";
+        sample.other.value = 2;
+      });
+      expect(listener).not.toHaveBeenCalled();
+    });
+
+    it("ignores the methods changing the state after disposal", () => {
+      const sample = new Sample();
+      const watcher = Watcher.get(sample);
+      const warn = vi.spyOn(console, "warn").mockImplementation(() => {});
+
+      runInAction(() => (sample.field = "b"));
+      watcher.dispose();
+      watcher.reset();
+      watcher.resetKeyPath(KeyPath.build("field"));
+      expect(watcher.changedKeys).toEqual(new Set(["field"]));
+
+      const other = Watcher.get(sample.other);
+      other.assumeChanged();
+      expect(other.changed).toBe(false);
+      warn.mockRestore();
+    });
+
+    it("warns once when used after disposal", () => {
+      const sample = new Sample();
+      const watcher = Watcher.get(sample);
+      const warn = vi.spyOn(console, "warn").mockImplementation(() => {});
+
+      watcher.dispose();
+      watcher.assumeChanged();
+      watcher.reset();
+      Watcher.get(sample.other).reset();
+      expect(warn).toHaveBeenCalledTimes(2); // The watcher and the nested watcher
+      expect(warn).toHaveBeenNthCalledWith(1, "Watcher#assumeChanged: The watcher has been disposed");
+      expect(warn).toHaveBeenNthCalledWith(2, "Watcher#reset: The watcher has been disposed");
+      warn.mockRestore();
+    });
+
+    it("does not warn in production", () => {
+      vi.stubEnv("NODE_ENV", "production");
+      const sample = new Sample();
+      const watcher = Watcher.get(sample);
+      const warn = vi.spyOn(console, "warn").mockImplementation(() => {});
+
+      watcher.dispose();
+      watcher.assumeChanged();
+      expect(warn).not.toHaveBeenCalled();
+      warn.mockRestore();
+    });
+
+    it("unlinks nested watchers", () => {
+      const sample = new Sample();
+      const watcher = Watcher.get(sample);
+      expect(Watcher.get(sample.other).parent).toBe(watcher);
+
+      watcher.dispose();
+      expect(Watcher.get(sample.other).parent).toBeNull();
+    });
+  });
+
+  describe("#parent, #root, #keyPathFromRoot", () => {
+    class Sample {
+      @nested @observable items = [new Item(), new Item()];
+
+      constructor() {
+        makeObservable(this);
+      }
+    }
+
+    class Item {
+      @nested @observable other = new Other();
+
+      constructor() {
+        makeObservable(this);
+      }
+    }
+
+    class Other {
+      @observable value = 1;
+
+      constructor() {
+        makeObservable(this);
+      }
+    }
+
+    it("returns the parent and the root of a nested watcher", () => {
+      const sample = new Sample();
+      const watcher = Watcher.get(sample);
+      const itemWatcher = Watcher.get(sample.items[1]);
+      const otherWatcher = Watcher.get(sample.items[1].other);
+
+      expect(watcher.parent).toBeNull();
+      expect(watcher.root).toBe(watcher);
+      expect(itemWatcher.parent).toBe(watcher);
+      expect(otherWatcher.parent).toBe(itemWatcher);
+      expect(otherWatcher.root).toBe(watcher);
+    });
+
+    it("returns the key path from the root", () => {
+      const sample = new Sample();
+      const watcher = Watcher.get(sample);
+
+      expect(watcher.keyPathFromRoot).toBe(KeyPath.Self);
+      expect(Watcher.get(sample.items[1]).keyPathFromRoot).toBe("items.1");
+      expect(Watcher.get(sample.items[1].other).keyPathFromRoot).toBe("items.1.other");
+    });
+
+    it("follows the changes of the parent", () => {
+      const sample = new Sample();
+      Watcher.get(sample);
+      const item = sample.items[1];
+
+      runInAction(() => sample.items.shift());
+      expect(Watcher.get(item).keyPathFromRoot).toBe("items.0");
+      expect(Watcher.get(item.other).keyPathFromRoot).toBe("items.0.other");
+
+      runInAction(() => sample.items.shift());
+      expect(Watcher.get(item).parent).toBeNull();
+      expect(Watcher.get(item.other).root).toBe(Watcher.get(item));
+      expect(Watcher.get(item.other).keyPathFromRoot).toBe("other");
+    });
+
+    it("is unknown until the parent watcher is created", () => {
+      const sample = new Sample();
+      const itemWatcher = Watcher.get(sample.items[0]);
+      expect(itemWatcher.parent).toBeNull();
+
+      const watcher = Watcher.get(sample);
+      expect(itemWatcher.parent).toBe(watcher);
+    });
+  });
+
+  describe("#pause, #resume", () => {
+    class Sample {
+      @observable field = "a";
+      @nested @observable other = new Other();
+
+      constructor() {
+        makeObservable(this);
+      }
+    }
+
+    class Other {
+      @observable value = 1;
+
+      constructor() {
+        makeObservable(this);
+      }
+    }
+
+    it("does not detect changes while paused", () => {
+      const sample = new Sample();
+      const watcher = Watcher.get(sample);
+
+      watcher.pause();
+      expect(watcher.isPaused).toBe(true);
+      runInAction(() => (sample.field = "b"));
+      watcher.assumeChanged();
+      expect(watcher.changed).toBe(false);
+
+      watcher.resume();
+      expect(watcher.isPaused).toBe(false);
+      runInAction(() => (sample.field = "a"));
+      expect(watcher.changedKeys).toEqual(new Set(["field"])); // "b" is the new baseline
+    });
+
+    it("does not affect other watchers", () => {
+      const sample1 = new Sample();
+      const sample2 = new Sample();
+      const watcher1 = Watcher.get(sample1);
+      const watcher2 = Watcher.get(sample2);
+
+      watcher1.pause();
+      runInAction(() => {
+        sample1.field = "b";
+        sample2.field = "b";
+      });
+      watcher1.resume();
+      expect(watcher1.changed).toBe(false);
+      expect(watcher2.changed).toBe(true);
+    });
+
+    it("does not pause nested watchers by default", () => {
+      const sample = new Sample();
+      const watcher = Watcher.get(sample);
+
+      watcher.pause();
+      runInAction(() => (sample.other.value = 2));
+      watcher.resume();
+      expect(watcher.changedKeyPaths).toEqual(new Set(["other.value"]));
+    });
+
+    it("pauses nested watchers with the nested option", () => {
+      const sample = new Sample();
+      const watcher = Watcher.get(sample);
+      const nestedWatcher = Watcher.get(sample.other);
+
+      watcher.pause({ nested: true });
+      expect(nestedWatcher.isPaused).toBe(true);
+      runInAction(() => (sample.other.value = 2));
+      watcher.resume();
+      expect(nestedWatcher.isPaused).toBe(false);
+      expect(watcher.changed).toBe(false);
+    });
+
+    it("handles nested calls", () => {
+      const sample = new Sample();
+      const watcher = Watcher.get(sample);
+
+      watcher.pause();
+      watcher.pause();
+      watcher.resume();
+      expect(watcher.isPaused).toBe(true);
+      watcher.resume();
+      expect(watcher.isPaused).toBe(false);
+      watcher.resume(); // No effect
+      expect(watcher.isPaused).toBe(false);
+    });
+
+    it("resumes when the current transaction completes", () => {
+      const sample = new Sample();
+      const watcher = Watcher.get(sample);
+
+      runInAction(() => {
+        watcher.pause();
+        sample.field = "b";
+        watcher.resume();
+        expect(watcher.isPaused).toBe(true);
+      });
+      expect(watcher.isPaused).toBe(false);
+      expect(watcher.changed).toBe(false);
+    });
+  });
 });
 
 describe("unwatch()", () => {
@@ -146,6 +1126,28 @@ describe("unwatch()", () => {
     expect(watcher.changed).toBe(false);
   });
 
+  it("takes changes made in the function as new baselines", () => {
+    const object = observable({ value: 0 });
+    const watcher = Watcher.get(object);
+
+    unwatch(() => {
+      runInAction(() => {
+        object.value = 1;
+      });
+    });
+    expect(watcher.changed).toBe(false);
+
+    runInAction(() => {
+      object.value = 2;
+    });
+    expect(watcher.changed).toBe(true);
+
+    runInAction(() => {
+      object.value = 1;
+    });
+    expect(watcher.changed).toBe(false);
+  });
+
   it("works when unwatch() function has outer transactions", () => {
     const object = observable({ value: 0, other: 0 });
     const watcher = Watcher.get(object);
@@ -166,6 +1168,182 @@ describe("unwatch()", () => {
     expect(watcher.changed).toBe(true);
     expect(watcher.changedKeys).toEqual(new Set(["other"])); // "value" is not included
   });
+
+  it("returns the result of the function", () => {
+    expect(unwatch(() => 1)).toBe(1);
+  });
+
+  describe("with an async function", () => {
+    it("throws an error without a target", () => {
+      let called = false;
+      expect(() => {
+        // @ts-expect-error - requires a target
+        unwatch(async () => {
+          called = true;
+        });
+      }).toThrowErrorMatchingInlineSnapshot(
+        `[TypeError: unwatch: Expected a target for an async function, e.g., unwatch(target, async () => {})]`
+      );
+      expect(called).toBe(false);
+      expect(Watcher.isWatching).toBe(true);
+    });
+
+    describe("without a target when a promise is returned", () => {
+      afterEach(() => {
+        vi.unstubAllEnvs();
+        vi.restoreAllMocks();
+      });
+
+      it("returns the promise with a warning", async () => {
+        const warn = vi.spyOn(console, "warn").mockImplementation(() => {});
+        const promise = Promise.resolve(1);
+        // @ts-expect-error - requires a target
+        expect(unwatch(() => promise)).toBe(promise);
+        expect(warn).toHaveBeenCalledTimes(1);
+        expect(warn.mock.calls[0][0]).toMatch(/^unwatch: /);
+        await expect(promise).resolves.toBe(1);
+        expect(Watcher.isWatching).toBe(true);
+      });
+
+      it("does not warn in production", () => {
+        vi.stubEnv("NODE_ENV", "production");
+        const warn = vi.spyOn(console, "warn").mockImplementation(() => {});
+        const promise = Promise.resolve();
+        // @ts-expect-error - requires a target
+        expect(unwatch(() => promise)).toBe(promise);
+        expect(warn).not.toHaveBeenCalled();
+      });
+    });
+
+    it("pauses the watcher of the target until the promise settles", async () => {
+      const object = observable({ value: 0 });
+      const watcher = Watcher.get(object);
+
+      const promise = unwatch(object, async () => {
+        await Promise.resolve();
+        expect(watcher.isPaused).toBe(true);
+        runInAction(() => {
+          object.value = 1;
+        });
+        return "done";
+      });
+      expect(watcher.isPaused).toBe(true);
+      expect(await promise).toBe("done");
+      expect(watcher.isPaused).toBe(false);
+      expect(watcher.changed).toBe(false);
+
+      runInAction(() => {
+        object.value = 2;
+      });
+      expect(watcher.changed).toBe(true);
+    });
+
+    it("resumes the watcher even if the promise is rejected", async () => {
+      const object = observable({ value: 0 });
+      const watcher = Watcher.get(object);
+      await expect(
+        unwatch(object, async () => {
+          await Promise.resolve();
+          throw new Error("failed");
+        })
+      ).rejects.toThrowError("failed");
+      expect(watcher.isPaused).toBe(false);
+    });
+
+    it("does not detect changes to the target made while awaiting", async () => {
+      const object = observable({ value: 0 });
+      const watcher = Watcher.get(object);
+
+      let resolve!: () => void;
+      const promise = unwatch(object, () => new Promise<void>((r) => (resolve = r)));
+      runInAction(() => {
+        object.value = 1; // e.g., an interleaved user edit
+      });
+      resolve();
+      await promise;
+      expect(watcher.changed).toBe(false);
+    });
+
+    it("detects changes to other models made while awaiting", async () => {
+      const object1 = observable({ value: 0 });
+      const object2 = observable({ value: 0 });
+      const watcher1 = Watcher.get(object1);
+      const watcher2 = Watcher.get(object2);
+
+      let resolve!: () => void;
+      const promise = unwatch(object1, async () => {
+        await new Promise<void>((r) => (resolve = r));
+        runInAction(() => {
+          object1.value = 1;
+        });
+      });
+      expect(watcher1.isPaused).toBe(true);
+      runInAction(() => {
+        object2.value = 1; // e.g., an unrelated user edit
+      });
+      expect(watcher2.changedKeys).toEqual(new Set(["value"]));
+      resolve();
+      await promise;
+      expect(watcher1.isPaused).toBe(false);
+      expect(watcher1.changed).toBe(false);
+      expect(watcher2.changedKeys).toEqual(new Set(["value"]));
+    });
+  });
+
+  describe("with a target", () => {
+    class Sample {
+      @observable field = "a";
+      @nested @observable other = new Other();
+
+      constructor() {
+        makeObservable(this);
+      }
+    }
+
+    class Other {
+      @observable value = 1;
+
+      constructor() {
+        makeObservable(this);
+      }
+    }
+
+    it("only silences the watcher of the target", () => {
+      const sample1 = new Sample();
+      const sample2 = new Sample();
+      const watcher1 = Watcher.get(sample1);
+      const watcher2 = Watcher.get(sample2);
+
+      runInAction(() => {
+        unwatch(sample1, () => {
+          sample1.field = "b";
+          sample2.field = "b";
+        });
+        sample1.other.value = 2;
+      });
+      expect(Watcher.isWatching).toBe(true);
+      expect(watcher1.changedKeyPaths).toEqual(new Set(["other.value"]));
+      expect(watcher2.changedKeyPaths).toEqual(new Set(["field"]));
+    });
+
+    it("silences nested watchers with the nested option", () => {
+      const sample = new Sample();
+      const watcher = Watcher.get(sample);
+
+      unwatch(
+        sample,
+        () => {
+          runInAction(() => {
+            sample.field = "b";
+            sample.other.value = 2;
+          });
+        },
+        { nested: true }
+      );
+      expect(watcher.changed).toBe(false);
+      expect(watcher.isPaused).toBe(false);
+    });
+  });
 });
 
 describe("Annotations", () => {
@@ -197,57 +1375,99 @@ describe("Annotations", () => {
     test("changes to @observable/@computed fields are tracked", () => {
       const sample = new Sample();
       const watcher = Watcher.get(sample);
-      expect(watcher.changed).toBe(false);
-      expect(watcher.changedKeys).toEqual(new Set());
+      expect(watcher.changed).toBe(false);
+      expect(watcher.changedKeys).toEqual(new Set());
+
+      runInAction(() => {
+        sample.field1 = true;
+      });
+      expect(watcher.changed).toBe(true);
+      expect(watcher.changedKeys).toEqual(new Set(["field1", "computed1", "computed3"]));
+
+      runInAction(() => {
+        sample.field2 = true;
+      });
+      expect(watcher.changed).toBe(true);
+      expect(watcher.changedKeys).toEqual(new Set(["field1", "computed1", "field2", "computed2", "computed3"]));
+    });
+
+    test("changedTick is incremented for each change", () => {
+      const sample = new Sample();
+      const watcher = Watcher.get(sample);
+      expect(watcher.changedTick).toBe(0n);
+
+      runInAction(() => {
+        sample.field1 = true;
+      });
+      // 1 change to 3 fields each (field1, computed1, computed3)
+      expect(watcher.changedTick).toBe(3n);
+
+      runInAction(() => {
+        sample.field2 = true;
+      });
+      // 1 change to 2 fields each (field2, computed2)
+      // Since the value of computed3 is constant, it won't be counted.
+      expect(watcher.changedTick).toBe(3n + 2n);
+
+      runInAction(() => {
+        sample.field1 = false;
+        sample.field2 = false;
+      });
+      // 1 change to all 5 fields each
+      // Since runInAction is used, change to field1 and field2 are counted as 1 change.
+      expect(watcher.changedTick).toBe(3n + 2n + 5n);
+    });
+
+    test("when the value is not changed, the watcher is not updated", () => {
+      const sample = new Sample();
+      const watcher = Watcher.get(sample);
+      expect(watcher.changed).toBe(false);
+      expect(watcher.changedKeys).toEqual(new Set());
+
+      runInAction(() => {
+        sample.field1 = false; // same value as before
+      });
+      expect(watcher.changed).toBe(false);
+      expect(watcher.changedKeys).toEqual(new Set());
+    });
+
+    test("reverting a value to its baseline clears the changed state", () => {
+      const sample = new Sample();
+      const watcher = Watcher.get(sample);
 
       runInAction(() => {
         sample.field1 = true;
       });
       expect(watcher.changed).toBe(true);
       expect(watcher.changedKeys).toEqual(new Set(["field1", "computed1", "computed3"]));
+      expect(watcher.changedTick).toBe(3n);
 
       runInAction(() => {
-        sample.field2 = true;
+        sample.field1 = false;
       });
-      expect(watcher.changed).toBe(true);
-      expect(watcher.changedKeys).toEqual(new Set(["field1", "computed1", "field2", "computed2", "computed3"]));
+      expect(watcher.changed).toBe(false);
+      expect(watcher.changedKeys).toEqual(new Set());
+      expect(watcher.changedTick).toBe(6n); // Reverts are counted as changes
     });
 
-    test("changedTick is incremented for each change", () => {
+    test("reset() captures new baselines", () => {
       const sample = new Sample();
       const watcher = Watcher.get(sample);
-      expect(watcher.changedTick).toBe(0n);
 
       runInAction(() => {
         sample.field1 = true;
       });
-      // 1 change to 3 fields each (field1, computed1, computed3)
-      expect(watcher.changedTick).toBe(3n);
-
-      runInAction(() => {
-        sample.field2 = true;
-      });
-      // 1 change to 2 fields each (field2, computed2)
-      // Since the value of computed3 is constant, it won't be counted.
-      expect(watcher.changedTick).toBe(3n + 2n);
+      watcher.reset();
+      expect(watcher.changed).toBe(false);
 
       runInAction(() => {
         sample.field1 = false;
-        sample.field2 = false;
       });
-      // 1 change to all 5 fields each
-      // Since runInAction is used, change to field1 and field2 are counted as 1 change.
-      expect(watcher.changedTick).toBe(3n + 2n + 5n);
-    });
-
-    test("when the value is not changed, the watcher is not updated", () => {
-      const sample = new Sample();
-      const watcher = Watcher.get(sample);
-      expect(watcher.changed).toBe(false);
-      expect(watcher.changedKeys).toEqual(new Set());
+      expect(watcher.changed).toBe(true);
+      expect(watcher.changedKeys).toEqual(new Set(["field1", "computed1", "computed3"]));
 
       runInAction(() => {
-        sample.field1 = false; // same value as before
+        sample.field1 = true;
       });
       expect(watcher.changed).toBe(false);
       expect(watcher.changedKeys).toEqual(new Set());
@@ -323,6 +1543,22 @@ describe("Annotations", () => {
         expect(watcher.changedKeys).toEqual(new Set(["field1"]));
       });
 
+      test("reverting mutations to an array clears the changed state", () => {
+        const sample = new Sample();
+        const watcher = Watcher.get(sample);
+
+        runInAction(() => {
+          sample.field1.push(true);
+        });
+        expect(watcher.changedKeys).toEqual(new Set(["field1"]));
+
+        runInAction(() => {
+          sample.field1.pop();
+        });
+        expect(watcher.changedKeys).toEqual(new Set());
+        expect(watcher.changed).toBe(false);
+      });
+
       test("changes to array elements are NOT tracked", () => {
         const sample = new Sample();
         const watcher = Watcher.get(sample);
@@ -354,6 +1590,20 @@ describe("Annotations", () => {
         expect(watcher.changedKeys).toEqual(new Set(["field1"]));
       });
 
+      test("reverting mutations to a set clears the changed state", () => {
+        const sample = new Sample();
+        const watcher = Watcher.get(sample);
+
+        runInAction(() => {
+          sample.field1.add(true);
+        });
+        runInAction(() => {
+          sample.field1.delete(true);
+        });
+        expect(watcher.changedKeys).toEqual(new Set());
+        expect(watcher.changed).toBe(false);
+      });
+
       test("changes to set elements are NOT tracked", () => {
         const sample = new Sample();
         const watcher = Watcher.get(sample);
@@ -387,6 +1637,22 @@ describe("Annotations", () => {
         expect(watcher.changedKeys).toEqual(new Set(["field1"]));
       });
 
+      test("reverting assignments to a map clears the changed state", () => {
+        const sample = new Sample();
+        const watcher = Watcher.get(sample);
+
+        runInAction(() => {
+          sample.field1.set("key1", true);
+        });
+        expect(watcher.changedKeys).toEqual(new Set(["field1"]));
+
+        runInAction(() => {
+          sample.field1.set("key1", false);
+        });
+        expect(watcher.changedKeys).toEqual(new Set());
+        expect(watcher.changed).toBe(false);
+      });
+
       test("changes to map elements are NOT tracked", () => {
         const sample = new Sample();
         const watcher = Watcher.get(sample);
@@ -399,6 +1665,80 @@ describe("Annotations", () => {
     });
   });
 
+  describe("Symbol and number keys", () => {
+    const symbolKey = Symbol("field");
+    const nestedKey = Symbol("nested");
+
+    class Sample {
+      @observable [symbolKey] = 0;
+      @observable 1 = 0;
+      @nested @observable [nestedKey] = new Other();
+
+      constructor() {
+        makeObservable(this);
+      }
+    }
+
+    class Other {
+      @observable value = 0;
+
+      constructor() {
+        makeObservable(this);
+      }
+    }
+
+    test("changes are tracked with encoded key paths", () => {
+      const sample = new Sample();
+      const watcher = Watcher.get(sample);
+
+      runInAction(() => {
+        sample[symbolKey]++;
+        sample[1]++;
+        sample[nestedKey].value++;
+      });
+      expect(watcher.changedKeys).toEqual(new Set([KeyPath.build(symbolKey), "1"]));
+      expect(watcher.changedKeyPaths).toEqual(
+        new Set([KeyPath.build(symbolKey), "1", KeyPath.build(nestedKey, "value")])
+      );
+      expect(watcher.nested.get(KeyPath.build(nestedKey))).toBe(Watcher.get(sample[nestedKey]));
+    });
+
+    test("encoded key paths can be reset", () => {
+      const sample = new Sample();
+      const watcher = Watcher.get(sample);
+
+      runInAction(() => {
+        sample[symbolKey]++;
+      });
+      watcher.resetKeyPath(KeyPath.build(symbolKey));
+      expect(watcher.changed).toBe(false);
+    });
+
+    test("registered symbols are supported as property and map keys", () => {
+      const registeredKey = Symbol.for("mobx-sentinel.test.registered");
+
+      class Registered {
+        @observable [registeredKey] = 0;
+        @nested @observable map = new Map([[registeredKey, new Other()]]);
+
+        constructor() {
+          makeObservable(this);
+        }
+      }
+
+      const sample = new Registered();
+      const watcher = Watcher.get(sample);
+      runInAction(() => {
+        sample[registeredKey]++;
+        sample.map.get(registeredKey)!.value++;
+      });
+      expect(watcher.changedKeyPaths).toEqual(
+        new Set([KeyPath.build(registeredKey), KeyPath.build("map", registeredKey, "value")])
+      );
+      expect(KeyPath.components(KeyPath.build("map", registeredKey))).toEqual(["map", registeredKey]);
+    });
+  });
+
   describe("@watch", () => {
     class Sample {
       @watch field1 = observable.box(false);
@@ -576,48 +1916,243 @@ describe("Annotations", () => {
         expect(watcher.changedKeys).toEqual(new Set());
       });
 
-      test("changes to set elements are NOT tracked", () => {
-        const sample = new Sample();
-        const watcher = Watcher.get(sample);
+      test("changes to set elements are NOT tracked", () => {
+        const sample = new Sample();
+        const watcher = Watcher.get(sample);
+
+        runInAction(() => {
+          for (const element of sample.field2) {
+            element.value = true;
+          }
+        });
+        expect(watcher.changedKeys).toEqual(new Set());
+      });
+    });
+
+    describe("map", () => {
+      class Sample {
+        @watch.ref @observable field1 = new Map([["key1", false]]);
+        @watch.ref @observable field2 = new Map([["key1", { value: false }]]);
+
+        constructor() {
+          makeObservable(this);
+        }
+      }
+
+      test("assignments to a map are NOT tracked", () => {
+        const sample = new Sample();
+        const watcher = Watcher.get(sample);
+
+        runInAction(() => {
+          sample.field1.set("key2", true);
+        });
+        expect(watcher.changedKeys).toEqual(new Set());
+      });
+
+      test("changes to map elements are NOT tracked", () => {
+        const sample = new Sample();
+        const watcher = Watcher.get(sample);
+
+        runInAction(() => {
+          sample.field2.get("key1")!.value = true;
+        });
+        expect(watcher.changedKeys).toEqual(new Set());
+      });
+    });
+  });
+
+  describe("@watch.struct", () => {
+    class Sample {
+      @watch.struct @observable date = new Date(0);
+      @watch.struct @observable point = { x: 0, y: 0 };
+      @watch.struct @observable items = [{ value: 0 }];
+
+      constructor() {
+        makeObservable(this);
+      }
+    }
+
+    test("replacing with a structurally equal value is NOT tracked", () => {
+      const sample = new Sample();
+      const watcher = Watcher.get(sample);
+
+      runInAction(() => {
+        sample.date = new Date(0);
+        sample.point = { x: 0, y: 0 };
+        sample.items = [{ value: 0 }];
+      });
+      expect(watcher.changed).toBe(false);
+    });
+
+    test("replacing with a structurally different value is tracked", () => {
+      const sample = new Sample();
+      const watcher = Watcher.get(sample);
+
+      runInAction(() => {
+        sample.date = new Date(1);
+        sample.point = { x: 1, y: 0 };
+      });
+      expect(watcher.changedKeys).toEqual(new Set(["date", "point"]));
+    });
+
+    test("changes inside observable values are tracked", () => {
+      const sample = new Sample();
+      const watcher = Watcher.get(sample);
+
+      runInAction(() => {
+        sample.point.x = 1;
+        sample.items[0].value = 1;
+      });
+      expect(watcher.changedKeys).toEqual(new Set(["point", "items"]));
+
+      runInAction(() => {
+        sample.point.x = 0;
+        sample.items[0].value = 0;
+      });
+      expect(watcher.changed).toBe(false);
+    });
+  });
+
+  describe("@watch.equals", () => {
+    class Sample {
+      @watch.equals((a: Date, b: Date) => a.getTime() === b.getTime())
+      @observable.ref
+      date = new Date(0);
+
+      @watch.equals((a: string, b: string) => a.toLowerCase() === b.toLowerCase())
+      @observable
+      name = "john";
+
+      constructor() {
+        makeObservable(this);
+      }
+    }
+
+    test("changes are tracked with the custom comparison", () => {
+      const sample = new Sample();
+      const watcher = Watcher.get(sample);
+
+      runInAction(() => {
+        sample.date = new Date(0);
+        sample.name = "JOHN";
+      });
+      expect(watcher.changed).toBe(false);
+
+      runInAction(() => {
+        sample.date = new Date(1);
+        sample.name = "Jane";
+      });
+      expect(watcher.changedKeys).toEqual(new Set(["date", "name"]));
+    });
+
+    test("emits the watch mode in change events", () => {
+      const sample = new Sample();
+      const watcher = Watcher.get(sample);
+      const listener = vi.fn();
+      watcher.subscribe(listener);
+
+      runInAction(() => {
+        sample.date = new Date(1);
+      });
+      expect(listener).toHaveBeenCalledWith(expect.objectContaining({ keyPath: "date", mode: "@watch.equals" }));
+    });
+  });
+
+  describe("@watch.deep", () => {
+    class Sample {
+      @watch.deep @observable settings = {
+        theme: { color: "red", size: 1 },
+        tags: ["a", "b"],
+      };
+
+      constructor() {
+        makeObservable(this);
+      }
+    }
+
+    test("changes anywhere inside the value are tracked with precise key paths", () => {
+      const sample = new Sample();
+      const watcher = Watcher.get(sample);
+
+      runInAction(() => {
+        sample.settings.theme.color = "blue";
+        sample.settings.tags.push("c");
+      });
+      expect(watcher.changedKeys).toEqual(new Set(["settings"]));
+      expect(watcher.changedKeyPaths).toEqual(new Set(["settings.theme.color", "settings.tags.2"]));
+    });
+
+    test("reverting the changes clears them", () => {
+      const sample = new Sample();
+      const watcher = Watcher.get(sample);
+
+      runInAction(() => (sample.settings.theme.color = "blue"));
+      runInAction(() => (sample.settings.theme.color = "red"));
+      expect(watcher.changed).toBe(false);
+      expect(watcher.changedKeyPaths).toEqual(new Set());
+    });
+
+    test("replacing with an equal copy is NOT tracked", () => {
+      const sample = new Sample();
+      const watcher = Watcher.get(sample);
+
+      runInAction(() => {
+        sample.settings = { theme: { color: "red", size: 1 }, tags: ["a", "b"] };
+      });
+      expect(watcher.changed).toBe(false);
+    });
+
+    test("#getChanges reports changes per key path", () => {
+      const sample = new Sample();
+      const watcher = Watcher.get(sample);
+
+      runInAction(() => {
+        sample.settings.theme.size = 2;
+        sample.settings.tags.pop();
+      });
+      expect(watcher.getChanges()).toEqual(
+        new Map([
+          ["settings.theme.size", { oldValue: 1, newValue: 2 }],
+          ["settings.tags.1", { oldValue: "b", newValue: undefined }],
+        ])
+      );
+    });
+
+    test("#toJsonPatch produces operations per key path", () => {
+      const sample = new Sample();
+      const watcher = Watcher.get(sample);
 
-        runInAction(() => {
-          for (const element of sample.field2) {
-            element.value = true;
-          }
-        });
-        expect(watcher.changedKeys).toEqual(new Set());
+      runInAction(() => {
+        sample.settings.theme.size = 2;
+        sample.settings.tags.splice(0, 2, "x");
       });
+      expect(watcher.toJsonPatch()).toEqual([
+        { op: "replace", path: "/settings/theme/size", value: 2 },
+        { op: "replace", path: "/settings/tags/0", value: "x" },
+        { op: "remove", path: "/settings/tags/1" },
+      ]);
     });
+  });
 
-    describe("map", () => {
-      class Sample {
-        @watch.ref @observable field1 = new Map([["key1", false]]);
-        @watch.ref @observable field2 = new Map([["key1", { value: false }]]);
+  describe("Overriding annotations", () => {
+    class Sample {
+      @watch.ref @watch.struct @observable field1 = { value: 0 };
+      @watch.struct @watch.ref @observable field2 = { value: 0 };
 
-        constructor() {
-          makeObservable(this);
-        }
+      constructor() {
+        makeObservable(this);
       }
+    }
 
-      test("assignments to a map are NOT tracked", () => {
-        const sample = new Sample();
-        const watcher = Watcher.get(sample);
-
-        runInAction(() => {
-          sample.field1.set("key2", true);
-        });
-        expect(watcher.changedKeys).toEqual(new Set());
-      });
-
-      test("changes to map elements are NOT tracked", () => {
-        const sample = new Sample();
-        const watcher = Watcher.get(sample);
+    test("the last applied (outermost) annotation prevails", () => {
+      const sample = new Sample();
+      const watcher = Watcher.get(sample);
 
-        runInAction(() => {
-          sample.field2.get("key1")!.value = true;
-        });
-        expect(watcher.changedKeys).toEqual(new Set());
+      runInAction(() => {
+        sample.field1 = { value: 0 };
+        sample.field2 = { value: 0 };
       });
+      expect(watcher.changedKeys).toEqual(new Set(["field1"]));
     });
   });
 
@@ -875,15 +2410,51 @@ describe("Annotations", () => {
 
         runInAction(() => {
           sample.field1.value = true;
+          sample.field2 = new Other();
         });
         expect(watcher.changed).toBe(true);
         expect(watcherNested.changed).toBe(true);
 
         watcherNested.reset();
         expect(watcher.changed).toBe(true);
+        expect(watcher.changedKeyPaths).toEqual(new Set(["field2"]));
         expect(watcherNested.changed).toBe(false);
       });
 
+      test("resetting a nested object clears its changes from the parent", () => {
+        const sample = new Sample();
+        const watcher = Watcher.get(sample);
+        const watcherNested = Watcher.get(sample.field1);
+
+        runInAction(() => {
+          sample.field1.value = true;
+        });
+        expect(watcher.changed).toBe(true);
+        expect(watcherNested.changed).toBe(true);
+
+        watcherNested.reset();
+        expect(watcher.changed).toBe(false);
+        expect(watcher.changedKeyPaths).toEqual(new Set());
+        expect(watcherNested.changed).toBe(false);
+      });
+
+      test("reverting a change to a nested class clears the changed state", () => {
+        const sample = new Sample();
+        const watcher = Watcher.get(sample);
+
+        runInAction(() => {
+          sample.field1.value = true;
+        });
+        expect(watcher.changed).toBe(true);
+        expect(watcher.changedKeyPaths).toEqual(new Set(["field1.value"]));
+
+        runInAction(() => {
+          sample.field1.value = false;
+        });
+        expect(watcher.changed).toBe(false);
+        expect(watcher.changedKeyPaths).toEqual(new Set());
+      });
+
       test("the parent can reset all nested objects recursively", () => {
         const sample = new Sample();
         const watcher = Watcher.get(sample);
@@ -900,6 +2471,173 @@ describe("Annotations", () => {
         expect(watcherNested.changed).toBe(false);
       });
     });
+
+    describe("shared objects", () => {
+      class Sample {
+        @nested @observable items: Item[] = [];
+
+        constructor(items: Item[]) {
+          makeObservable(this);
+          this.items.push(...items);
+        }
+      }
+
+      class Item {
+        @observable value = false;
+
+        constructor() {
+          makeObservable(this);
+        }
+      }
+
+      test("changes to a shared object are tracked under each key path", () => {
+        const item = new Item();
+        const sample1 = new Sample([item]);
+        const sample2 = new Sample([new Item(), item, item]);
+        const watcher1 = Watcher.get(sample1);
+        const watcher2 = Watcher.get(sample2);
+
+        runInAction(() => {
+          item.value = true;
+        });
+        expect(watcher1.changedKeyPaths).toEqual(new Set(["items.0.value"]));
+        expect(watcher2.changedKeyPaths).toEqual(new Set(["items.1.value", "items.2.value"]));
+        expect(Watcher.get(item).parent).toBe(watcher1);
+      });
+
+      test("disposing a parent does not dispose a shared object owned by another parent", () => {
+        const item = new Item();
+        const sample1 = new Sample([item]);
+        const sample2 = new Sample([item]);
+        const watcher1 = Watcher.get(sample1);
+        const watcher2 = Watcher.get(sample2);
+
+        watcher1.dispose();
+        expect(Watcher.get(item).isDisposed).toBe(false);
+        expect(Watcher.get(item).parent).toBe(watcher2);
+
+        watcher2.dispose();
+        expect(Watcher.get(item).isDisposed).toBe(true);
+      });
+    });
+
+    describe("cycles", () => {
+      class Parent {
+        @nested @observable child: Child;
+
+        constructor() {
+          makeObservable(this);
+          this.child = new Child(this);
+        }
+      }
+
+      class Child {
+        @observable value = false;
+        @nested @observable parent: Parent;
+
+        constructor(parent: Parent) {
+          makeObservable(this);
+          this.parent = parent;
+        }
+      }
+
+      afterEach(() => {
+        vi.unstubAllEnvs();
+      });
+
+      test("a reference back to an ancestor throws an error", () => {
+        const error = vi.spyOn(console, "error");
+        const sample = new Parent();
+        const watcher = Watcher.get(sample);
+
+        expect(() => watcher.changedKeyPaths).toThrow('nested: Cycle detected at "child.parent"');
+        expect(() => watcher.changed).toThrow('nested: Cycle detected at "child.parent"');
+        expect(() => watcher.getChanges()).toThrow('nested: Cycle detected at "child.parent"');
+        expect(() => watcher.reset()).toThrow('nested: Cycle detected at "child.parent"');
+        expect(error).not.toHaveBeenCalled();
+        error.mockRestore();
+      });
+
+      test("errors are cleared when the cycle is broken", () => {
+        const sample = new Parent();
+        const watcher = Watcher.get(sample);
+        const results: (boolean | string)[] = [];
+        autorun(() => {
+          try {
+            results.push(watcher.changed);
+          } catch (error) {
+            results.push((error as Error).message);
+          }
+        });
+
+        runInAction(() => {
+          sample.child.parent = null!;
+        });
+        expect(results[0]).toBe(
+          'nested: Cycle detected at "child.parent". A nested object must not refer back to its ancestors'
+        );
+        expect(results.at(-1)).toBe(true);
+      });
+
+      test("a reference back to an ancestor is skipped in production", () => {
+        vi.stubEnv("NODE_ENV", "production");
+        const sample = new Parent();
+        const watcher = Watcher.get(sample);
+
+        runInAction(() => {
+          sample.child.value = true;
+        });
+        expect(watcher.changedKeyPaths).toEqual(new Set(["child.value"]));
+        expect(Watcher.get(sample.child).nested.size).toBe(1);
+        expect(Watcher.get(sample.child).root).toBe(watcher);
+
+        watcher.reset();
+        expect(watcher.changed).toBe(false);
+      });
+
+      test("values in a cycle do not depend on the watcher read first in production", () => {
+        vi.stubEnv("NODE_ENV", "production");
+
+        class Node {
+          @observable value = 0;
+          @nested @observable next: Node | null = null;
+
+          constructor() {
+            makeObservable(this);
+          }
+        }
+
+        const a = new Node();
+        const b = new Node();
+        runInAction(() => {
+          a.next = b;
+          b.next = a;
+        });
+        const watcherA = Watcher.get(a);
+        const watcherB = Watcher.get(b);
+
+        // Cache the values of the cycle starting from each watcher in turn
+        const results: unknown[] = [];
+        autorun(() => {
+          results.push([watcherB.changed, watcherB.changedKeyPaths, watcherB.changedElements]);
+          results.push([watcherA.changed, watcherA.changedKeyPaths, watcherA.changedElements]);
+        });
+
+        runInAction(() => {
+          b.value = 1;
+        });
+        expect(watcherB.changed).toBe(true);
+        expect(watcherA.changed).toBe(true);
+        expect(watcherA.changedKeyPaths).toEqual(new Set(["next.value"]));
+        expect(watcherB.changedKeyPaths).toEqual(new Set(["value", "next.next.value"]));
+
+        runInAction(() => {
+          b.value = 0;
+        });
+        expect(watcherA.changed).toBe(false);
+        expect(watcherB.changed).toBe(false);
+      });
+    });
   });
 
   describe("@nested.hoist", () => {
@@ -935,7 +2673,7 @@ describe("Annotations", () => {
         runInAction(() => {
           sample.other.value = true;
         });
-        expect(watcher.changedKeys).toEqual(new Set([]));
+        expect(watcher.changedKeys).toEqual(new Set(["value"]));
         expect(watcher.changedKeyPaths).toEqual(new Set(["value"]));
         expect(watcher.changed).toBe(true);
         expect(watcher.nested.get(KeyPath.Self)?.changedKeys).toEqual(new Set(["value"]));
@@ -975,12 +2713,172 @@ describe("Annotations", () => {
         runInAction(() => {
           sample.list[0].value = true;
         });
-        expect(watcher.changedKeys).toEqual(new Set([]));
+        expect(watcher.changedKeys).toEqual(new Set(["0.value"]));
         expect(watcher.changedKeyPaths).toEqual(new Set(["0.value"]));
         expect(watcher.changed).toBe(true);
         expect(watcher.nested.get("0" as KeyPath)?.changedKeys).toEqual(new Set(["value"]));
         expect(watcher.nested.get("0" as KeyPath)?.changed).toBe(true);
       });
     });
+
+    describe("observable array", () => {
+      class Sample {
+        @nested.hoist @observable list = [new Other()];
+
+        constructor() {
+          makeObservable(this);
+        }
+      }
+
+      class Other {
+        @observable value = false;
+
+        constructor() {
+          makeObservable(this);
+        }
+      }
+
+      test("mutations to the hoisted array are tracked without exposing the key", () => {
+        const sample = new Sample();
+        const watcher = Watcher.get(sample);
+
+        runInAction(() => {
+          sample.list.push(new Other());
+        });
+        expect(watcher.changedKeys).toEqual(new Set(["1"]));
+        expect(watcher.changedKeyPaths).toEqual(new Set(["1"]));
+        expect(watcher.changedElements).toEqual(
+          new Map([[KeyPath.Self, [{ type: "added", keyPath: "1", value: sample.list[1] }]]])
+        );
+        expect(watcher.changed).toBe(true);
+
+        runInAction(() => {
+          sample.list.pop();
+        });
+        expect(watcher.changed).toBe(false);
+      });
+
+      test("changes of hoisted elements are reported with their key paths", () => {
+        const sample = new Sample();
+        const watcher = Watcher.get(sample);
+
+        runInAction(() => {
+          sample.list[0].value = true;
+          sample.list.push(new Other());
+        });
+        expect(watcher.changedKeys).toEqual(new Set(["0.value", "1"]));
+        expect(watcher.changedKeyPaths).toEqual(new Set(["0.value", "1"]));
+
+        watcher.resetKeyPath(KeyPath.build("1"));
+        expect(watcher.changedKeys).toEqual(new Set(["0.value"]));
+
+        watcher.resetKeyPath(KeyPath.build("0.value"));
+        expect(watcher.changedKeys).toEqual(new Set());
+        expect(watcher.changed).toBe(false);
+      });
+    });
+  });
+
+  describe("@nested.keyed", () => {
+    class Sample {
+      @nested.keyed((row: Row) => row.id) @observable rows = [new Row("a"), new Row("b"), new Row("c")];
+
+      constructor() {
+        makeObservable(this);
+      }
+    }
+
+    class Row {
+      @observable qty = 0;
+
+      constructor(readonly id: string) {
+        makeObservable(this);
+      }
+    }
+
+    test("nested watchers are keyed by the function", () => {
+      const sample = new Sample();
+      const watcher = Watcher.get(sample);
+      expect(Array.from(watcher.nested.keys())).toEqual(["rows.a", "rows.b", "rows.c"]);
+    });
+
+    test("key paths of changes stay the same when elements are removed or reordered", () => {
+      const sample = new Sample();
+      const watcher = Watcher.get(sample);
+
+      runInAction(() => sample.rows[1].qty++);
+      expect(watcher.changedKeyPaths).toEqual(new Set(["rows.b.qty"]));
+
+      watcher.reset();
+      runInAction(() => sample.rows[1].qty++);
+      runInAction(() => sample.rows.shift());
+      expect(watcher.changedKeyPaths).toEqual(new Set(["rows.a", "rows.b.qty"]));
+      expect(watcher.changedElements.get("rows" as KeyPath)).toEqual([
+        { type: "removed", keyPath: "rows.a", value: expect.any(Row) },
+      ]);
+    });
+
+    test("JSON Patch addresses elements by indices", () => {
+      const sample = new Sample();
+      const watcher = Watcher.get(sample);
+
+      runInAction(() => sample.rows[1].qty++);
+      expect(watcher.toJsonPatch()).toEqual([{ op: "replace", path: "/rows/1/qty", value: 1 }]);
+    });
+  });
+
+  describe("@nested.record", () => {
+    class Sample {
+      @nested.record @observable byId: Record<string, Item> = { a: new Item(), b: new Item() };
+
+      constructor() {
+        makeObservable(this);
+      }
+    }
+
+    class Item {
+      @observable value = 0;
+
+      constructor() {
+        makeObservable(this);
+      }
+    }
+
+    test("nested watchers are created for the entries", () => {
+      const sample = new Sample();
+      const watcher = Watcher.get(sample);
+      expect(watcher.nested.get("byId.a" as KeyPath)).toBe(Watcher.get(sample.byId.a));
+      expect(watcher.nested.get("byId.b" as KeyPath)).toBe(Watcher.get(sample.byId.b));
+    });
+
+    test("changes to the entries are tracked", () => {
+      const sample = new Sample();
+      const watcher = Watcher.get(sample);
+
+      runInAction(() => sample.byId.a.value++);
+      expect(watcher.changedKeyPaths).toEqual(new Set(["byId.a.value"]));
+    });
+
+    test("added and removed entries are tracked as elements", () => {
+      const sample = new Sample();
+      const watcher = Watcher.get(sample);
+
+      const item = new Item();
+      runInAction(() => {
+        sample.byId.c = item;
+        delete sample.byId.a;
+      });
+      expect(watcher.changedKeys).toEqual(new Set(["byId"]));
+      expect(watcher.changedKeyPaths).toEqual(new Set(["byId.a", "byId.c"]));
+      expect(watcher.toJsonPatch()).toEqual([
+        { op: "remove", path: "/byId/a" },
+        { op: "add", path: "/byId/c", value: item },
+      ]);
+
+      runInAction(() => {
+        delete sample.byId.c;
+      });
+      expect(watcher.changedKeyPaths).toEqual(new Set(["byId.a"]));
+    });
   });
 });
@@ -1,9 +1,38 @@
-import { action, autorun, computed, makeObservable, observable, reaction, runInAction, transaction } from "mobx";
+import {
+  action,
+  autorun,
+  comparer,
+  computed,
+  makeObservable,
+  observable,
+  reaction,
+  runInAction,
+  isComputedProp,
+  toJS,
+  transaction,
+  untracked,
+} from "mobx";
 import { v4 as uuidV4 } from "uuid";
-import { createPropertyLikeAnnotation, getAnnotationProcessor } from "./annotationProcessor";
-import { getMobxObservableAnnotations, shallowReadValue, unwrapShallowContents } from "./mobx-utils";
-import { StandardNestedFetcher, getNestedAnnotations } from "./nested";
+import {
+  createPropertyLikeAnnotation,
+  getAnnotationProcessor,
+  markPropertyLikeAnnotation,
+} from "./annotationProcessor";
+import {
+  getMobxObservableAnnotations,
+  shallowEquals,
+  shallowReadRecord,
+  shallowReadValue,
+  shallowWriteRecord,
+  shallowWriteValue,
+} from "./mobx-utils";
+import { NestedCycleError, NestedTraversal, StandardNestedFetcher, getNestedAnnotations } from "./nested";
+import { NestedAggregator } from "./nestedAggregator";
 import { KeyPath } from "./keyPath";
+import { JsonPatch, diffJsonPatch } from "./jsonPatch";
+import { DeepDiffEntry, diffDeep, rebaseDeep } from "./deepDiff";
+import { ElementDiff, diffElements } from "./elementDiff";
+import { createDisposedWarning } from "./disposal";
 
 enum WatchMode {
   /**
@@ -18,25 +47,184 @@ enum WatchMode {
    * Akin to `@observable.shallow`.
    */
   Shallow = "@watch",
+  /**
+   * Watch values with structural comparison
+   *
+   * Akin to `@observable.struct`.
+   */
+  Struct = "@watch.struct",
+  /**
+   * Watch values with a custom comparison
+   */
+  Equals = "@watch.equals",
+  /**
+   * Watch changes anywhere inside plain data, reporting the key paths of the changes
+   */
+  Deep = "@watch.deep",
+}
+
+/** Data of a `@watch` annotation */
+type WatchAnnotation = {
+  readonly mode: WatchMode;
+  /** The comparison function for {@link WatchMode.Equals} */
+  readonly equals?: (a: any, b: any) => boolean;
+  /** Whether to read records as maps of their entries in {@link WatchMode.Shallow} (`@nested.record`) */
+  readonly record?: boolean;
+};
+
+/**
+ * Create functions to read and compare values of a key
+ *
+ * @param getValue - A function to get the current value of the key
+ */
+function createReader(annotation: WatchAnnotation, getValue: () => any) {
+  switch (annotation.mode) {
+    case WatchMode.Shallow:
+      if (annotation.record) {
+        return { read: () => shallowReadRecord(getValue()), equals: shallowEquals };
+      }
+      return { read: () => shallowReadValue(getValue()), equals: shallowEquals };
+    case WatchMode.Struct:
+    case WatchMode.Deep:
+      return { read: () => toJS(getValue()), equals: comparer.structural };
+    case WatchMode.Equals:
+      return { read: getValue, equals: annotation.equals ?? Object.is };
+    default:
+      return { read: getValue, equals: Object.is };
+  }
+}
+
+/** Baseline of a watched key */
+type Baseline = {
+  /** The watch mode of the key */
+  readonly mode: WatchMode;
+  /** Read the current value of the key */
+  readonly read: () => any;
+  /** Compare the current value with the baseline value */
+  readonly equals: (a: any, b: any) => boolean;
+  /** Write a value read by `read` back to the key, or null if the key is read-only */
+  readonly write: ((value: any) => void) | null;
+  /** The value captured when the watcher was created or last reset */
+  value: any;
+  /** The value read when the last change was processed */
+  last: any;
+};
+
+/**
+ * Change event with a function to write a value back to the key
+ *
+ * @internal @ignore
+ */
+export type WatcherChangeEvent = Watcher.ChangeEvent & {
+  readonly write: ((value: any) => void) | null;
+};
+
+/**
+ * Create a function to write a value back to the key of the target
+ *
+ * @param shallow - Whether the value is read by {@link shallowReadValue}
+ * @param record - Whether the value is read by {@link shallowReadRecord}
+ *
+ * @returns The function, or null if the key is not writable
+ */
+function createWriter(
+  target: object,
+  key: string | symbol | number,
+  shallow: boolean,
+  record = false
+): ((value: any) => void) | null {
+  if (!(key in target) || isComputedProp(target, key)) return null;
+
+  let descriptor: PropertyDescriptor | undefined;
+  for (let obj = target; obj && !descriptor; obj = Object.getPrototypeOf(obj)) {
+    descriptor = Object.getOwnPropertyDescriptor(obj, key);
+  }
+  if (!descriptor || !(descriptor.writable || descriptor.set)) return null;
+
+  return (value) => {
+    if (record) {
+      if (shallowWriteRecord((target as any)[key], value)) return;
+      (target as any)[key] = value instanceof Map ? Object.fromEntries(value) : value;
+      return;
+    }
+    if (shallow && shallowWriteValue((target as any)[key], value)) return;
+    (target as any)[key] = value;
+  };
 }
 
 const watchKey = Symbol("watch");
-const createWatch = createPropertyLikeAnnotation(watchKey, () => WatchMode.Shallow);
-const createWatchRef = createPropertyLikeAnnotation(watchKey, () => WatchMode.Ref);
+const createWatch = createPropertyLikeAnnotation(watchKey, (): WatchAnnotation => ({ mode: WatchMode.Shallow }));
+const createWatchRef = createPropertyLikeAnnotation(watchKey, (): WatchAnnotation => ({ mode: WatchMode.Ref }));
+const createWatchStruct = createPropertyLikeAnnotation(watchKey, (): WatchAnnotation => ({ mode: WatchMode.Struct }));
+const createWatchDeep = createPropertyLikeAnnotation(watchKey, (): WatchAnnotation => ({ mode: WatchMode.Deep }));
+const createWatchEquals = <T>(equals: (a: T, b: T) => boolean) =>
+  createPropertyLikeAnnotation(watchKey, (): WatchAnnotation => ({ mode: WatchMode.Equals, equals }));
 const unwatchKey = Symbol("unwatch");
 const createUnwatch = createPropertyLikeAnnotation(unwatchKey, () => true);
 
+/**
+ * Run an action and call `done` when it completes
+ *
+ * If the action returns a promise, `done` is called when the promise settles.
+ */
+function runAndFinally<R>(action: () => R, done: () => void): R {
+  let result: R;
+  try {
+    result = action();
+  } catch (e) {
+    done();
+    throw e;
+  }
+  if (result instanceof Promise) {
+    return result.finally(done) as R;
+  }
+  done();
+  return result;
+}
+
+const AsyncFunction = (async () => {}).constructor;
+const asyncWithoutTargetMessage =
+  "unwatch: Expected a target for an async function, e.g., unwatch(target, async () => {})";
+
 /** Global state for controlling whether watching is enabled */
 let unwatchStackCount = 0;
-function runInUnwatch(action: () => void): void {
-  transaction(() => {
-    ++unwatchStackCount;
-    try {
-      action();
-    } finally {
-      autorun(() => --unwatchStackCount);
+function runInUnwatch<R>(action: () => R extends PromiseLike<unknown> ? never : R): R;
+function runInUnwatch<R>(target: object, action: () => R, opt?: Watcher.PauseOptions): R;
+function runInUnwatch(
+  ...args: [action: () => unknown] | [target: object, action: () => unknown, opt?: Watcher.PauseOptions]
+) {
+  let result: unknown;
+  if (args.length === 1) {
+    const [action] = args;
+    // Disabling every watcher across `await` would drop unrelated changes made in the meantime
+    if (action instanceof AsyncFunction) {
+      throw new TypeError(asyncWithoutTargetMessage);
+    }
+    transaction(() => {
+      ++unwatchStackCount;
+      try {
+        result = action();
+      } finally {
+        autorun(() => --unwatchStackCount);
+      }
+    });
+    // Already executed, so the promise is returned as-is and only the synchronous part is unwatched
+    if (process.env.NODE_ENV !== "production" && result instanceof Promise) {
+      console.warn(
+        "unwatch: Only the synchronous part of a function returning a promise is unwatched without a target, " +
+          "e.g., unwatch(target, () => promise)"
+      );
     }
+    return result;
+  }
+
+  const [target, action, opt] = args;
+  const watcher = Watcher.get(target);
+  transaction(() => {
+    watcher.pause(opt);
+    result = runAndFinally(action, () => watcher.resume());
   });
+  return result;
 }
 
 /**
@@ -48,7 +236,7 @@ function runInUnwatch(action: () => void): void {
  * - `@observable` and `@computed` (and their variants) are automatically assumed to be `@watched`,\
  *    unless `@unwatch` or `@unwatch.ref` is specified.
  * - `@nested` (and its variants) are considered `@watched` unless `@unwatch` is specified.
- * - If `@watch` and `@watch.ref` are specified for the same key (in the same inheritance chain),\
+ * - If `@watch` and its variants are specified for the same key (in the same inheritance chain),\
  *   the last annotation prevails.
  *
  * @function
@@ -63,6 +251,50 @@ export const watch = Object.freeze(
      * @function
      */
     ref: createWatchRef,
+    /**
+     * Annotation for watching values with structural comparison
+     *
+     * Replacing a value with a structurally equal copy (e.g., a `Date` of the same time) is not a change.
+     * Observable contents are compared deeply, so changes inside them are detected as well.
+     *
+     * It has no effect when combined with `@nested`.
+     *
+     * @function
+     */
+    struct: createWatchStruct,
+    /**
+     * Annotation for watching changes anywhere inside plain data
+     *
+     * Values are compared structurally as `@watch.struct` does,
+     * and {@link Watcher#changedKeyPaths} reports the key paths of the changes (e.g., `settings.theme.color`)
+     * instead of the key itself.
+     *
+     * - Plain objects and maps are compared per key, and arrays per index
+     * - Use `@nested` for class instances, which have their own watchers
+     * - It has no effect when combined with `@nested`.
+     *
+     * @function
+     */
+    deep: createWatchDeep,
+    /**
+     * Annotation for watching values with a custom comparison
+     *
+     * Values are compared as they are, without unwrapping boxed observables and collections.
+     *
+     * It has no effect when combined with `@nested`.
+     *
+     * @example
+     * ```typescript
+     * @watch.equals((a: Date, b: Date) => a.getTime() === b.getTime())
+     * @observable
+     * date = new Date();
+     * ```
+     *
+     * @param equals - A function to compare the baseline value with the current value
+     *
+     * @function
+     */
+    equals: createWatchEquals,
   })
 );
 
@@ -78,6 +310,21 @@ export const watch = Object.freeze(
  *   ```typescript
  *   unwatch(() => (model.field = "value"));
  *   ```
+ * - Pass a target to only silence its watcher (see {@link Watcher#pause}).
+ *   ```typescript
+ *   unwatch(model, () => (model.field = "value"));
+ *   unwatch(model, () => (model.child.field = "value"), { nested: true });
+ *   ```
+ * - Async functions are supported with a target; its watcher stays paused until the returned promise settles.\
+ *   Any change to the target made in the meantime is not detected, including user edits made while awaiting.\
+ *   Without a target, async functions throw a `TypeError` before running, since they would disable every watcher while awaiting.
+ *   Other functions returning promises only have their synchronous part unwatched, with a warning in development.
+ *   ```typescript
+ *   await unwatch(model, async () => {
+ *     const data = await fetchData();
+ *     runInAction(() => (model.field = data.field));
+ *   });
+ *   ```
  * - Warning: When used inside a transaction, it only becomes 'watching' when the outermost transaction completes.
  *   ```typescript
  *   runInAction(() => {
@@ -94,15 +341,40 @@ export const watch = Object.freeze(
  *
  * @function
  */
-export const unwatch: typeof runInUnwatch & typeof createUnwatch = (...args: any[]) => {
+export const unwatch: typeof runInUnwatch & typeof createUnwatch = markPropertyLikeAnnotation((...args: any[]) => {
   if (args.length === 1 && typeof args[0] === "function") {
     return runInUnwatch(args[0]);
   }
+  if (typeof args[1] === "function") {
+    return runInUnwatch(args[0], args[1], args[2]);
+  }
   return createUnwatch(...(args as Parameters<typeof createUnwatch>));
-};
+});
 
 const watcherKey = Symbol("watcher");
 const internalToken = Symbol("watcher.internal");
+const warnIfDisposed = createDisposedWarning("Watcher", "watcher");
+
+/** Get the watcher of the target unless it does not exist or is disposed */
+const findWatcher = (target: object): Watcher | null => {
+  const watcher: Watcher | undefined = (target as any)[watcherKey];
+  return watcher && !watcher.isDisposed ? watcher : null;
+};
+
+/** Create a traversal of nested watchers, observing their nested instances */
+const createTraversal = () => new NestedTraversal<Watcher>((w) => w.nested);
+
+/** Recursive traversals of nested watchers, to detect cycles */
+const traversals = Object.freeze({
+  changed: createTraversal(),
+  changedKeys: createTraversal(),
+  changedKeyPaths: createTraversal(),
+  changedElements: createTraversal(),
+  getChanges: createTraversal(),
+  toJsonPatch: createTraversal(),
+  reset: createTraversal(),
+  resetKeyPath: createTraversal(),
+});
 
 /**
  * Watcher for tracking changes to observable properties
@@ -111,15 +383,31 @@ const internalToken = Symbol("watcher.internal");
  * - Supports `@watch` and `@watch.ref` annotations
  * - Can track nested objects
  * - Provides change detection at both property and path levels
- * - Can be temporarily disabled via `unwatch()`
+ * - Compares current values with baselines, so reverting a change clears it
+ * - Can be temporarily disabled via `unwatch()`, or per instance via `pause()`
  */
 export class Watcher {
   readonly id = uuidV4();
   readonly #assumeChanged = observable.box(false);
   readonly #changedTick = observable.box(0n);
   readonly #changedKeys = observable.set<KeyPath>();
-  readonly #processedKeys = new Set<string>();
+  readonly #processedKeys = new Set<string | symbol | number>();
+  readonly #baselines = new Map<KeyPath, Baseline>();
+  readonly #nestedKeys = new Set<KeyPath>();
+  readonly #hoistedKeys = new Set<KeyPath>();
+  readonly #keyedKeys = new Map<KeyPath, (element: any) => KeyPath.Key>();
+  readonly #deepKeys = new Set<KeyPath>();
+  readonly #listeners = new Set<(event: WatcherChangeEvent) => void>();
+  #unsubscribeNested: (() => void) | null = null;
+  #isEmitting = false;
+  readonly #disposers: (() => void)[] = [];
+  #isDisposed = false;
+  #pauseCount = 0;
+  readonly #pausedNested: Watcher[][] = [];
+  readonly #target: object;
   readonly #nestedFetcher: StandardNestedFetcher<Watcher>;
+  readonly #nestedChanged: NestedAggregator<Watcher, boolean>;
+  readonly #nestedChangedKeyPaths: NestedAggregator<Watcher, ReadonlySet<KeyPath>>;
 
   /**
    * Get a watcher instance for the target object.
@@ -149,8 +437,7 @@ export class Watcher {
 
     let watcher: Watcher | null = (target as any)[watcherKey] ?? null;
     if (!watcher) {
-      watcher = new this(internalToken, target);
-      Object.defineProperty(target, watcherKey, { value: watcher });
+      watcher = new this(internalToken, target); // Registered to the target in the constructor
     }
     return watcher;
   }
@@ -165,7 +452,19 @@ export class Watcher {
       throw new Error("private constructor");
     }
 
+    // Register first, so that nested objects referring back to the target get this instance
+    Object.defineProperty(target, watcherKey, { value: this });
+
+    this.#target = target;
     this.#nestedFetcher = new StandardNestedFetcher(target, (entry) => Watcher.getSafe(entry.data));
+    this.#nestedChanged = NestedAggregator.some(
+      () => this.#nestedFetcher.chunks(),
+      (w, keyPath) => traversals.changed.visit(w, keyPath, () => w.changed) ?? false
+    );
+    this.#nestedChangedKeyPaths = NestedAggregator.keyPaths(
+      () => this.#nestedFetcher.chunks(),
+      (w, keyPath) => traversals.changedKeyPaths.visit(w, keyPath, () => w.changedKeyPaths) ?? []
+    );
     this.#processUnwatchAnnotations(target);
     this.#processNestedAnnotations(target);
     this.#processWatchAnnotations(target);
@@ -181,53 +480,390 @@ export class Watcher {
    *
    * @remarks
    * - Incremented for each change and each affected key
+   * - Incremented even when a change reverts a value to its baseline
    * - Not affected by assumeChanged()
-   * - Reset to 0 when reset() is called
+   * - Reset to 0 when reset() is called, or when resetKeyPath() clears all changes
    */
   get changedTick() {
     return this.#changedTick.get();
   }
 
-  /** Whether changes have been made */
+  /**
+   * Whether changes have been made
+   *
+   * @remarks
+   * - Values are compared with their baselines, so reverting a change makes it `false` again
+   * - Includes changes of nested watchers
+   * - Always `true` after assumeChanged() until reset() is called
+   */
   @computed
   get changed() {
-    return this.changedTick > 0n || this.#assumeChanged.get();
+    return traversals.changed.run(
+      this,
+      () => this.#isChangedItself() || this.#nestedChanged.value,
+      () =>
+        NestedTraversal.collect<Watcher, boolean>(
+          this,
+          (w, nested) => w.#isChangedItself() || Array.from(w.#nestedFetcher).some((entry) => nested(entry.data))
+        )
+    );
+  }
+
+  /** Whether changes have been made, excluding the ones of nested watchers */
+  #isChangedItself() {
+    return this.#assumeChanged.get() || this.#changedKeys.size > 0;
   }
 
   /**
    * The keys that have changed
    *
    * @remarks
-   * - Does not include keys of nested objects
+   * - Does not include keys of nested objects, except for `@nested.hoist` ones (e.g., `0.value`)
+   * - Keys of `@nested.hoist` are replaced with the key paths of the changed elements (e.g., `1`)
    * - Cleared when reset() is called
    * - Updated when properties are modified
+   * - Removed when the value is reverted to its baseline
    */
   @computed.struct
   get changedKeys(): ReadonlySet<KeyPath> {
-    return new Set(this.#changedKeys);
+    return traversals.changedKeys.run(
+      this,
+      () =>
+        this.#collectChangedKeys((entry) =>
+          traversals.changedKeys.visit(entry.data, entry.keyPath, () => entry.data.changedKeys)
+        ),
+      () =>
+        NestedTraversal.collect<Watcher, ReadonlySet<KeyPath>>(this, (w, nested) =>
+          w.#collectChangedKeys((entry) => nested(entry.data))
+        )
+    );
+  }
+
+  /**
+   * Collect the changed keys
+   *
+   * @param nested - A function that returns the changed keys of a nested watcher, or `undefined` if skipped
+   */
+  #collectChangedKeys(nested: (entry: StandardNestedFetcher.Entry<Watcher>) => ReadonlySet<KeyPath> | undefined) {
+    const result = new Set<KeyPath>();
+    for (const key of this.#changedKeys) {
+      if (!this.#hoistedKeys.has(key)) {
+        result.add(key);
+        continue;
+      }
+      for (const keyPath of this.#hoistedElementKeyPaths(key)) {
+        result.add(keyPath);
+      }
+    }
+    for (const entry of this.#nestedFetcher.getForKey(KeyPath.Self)) {
+      for (const changedKey of nested(entry) ?? []) {
+        result.add(KeyPath.build(entry.keyPath, changedKey));
+      }
+    }
+    return result;
   }
 
   /**
    * The key paths that have changed
    *
    * Keys of nested objects are included.
+   *
+   * @remarks
+   * - Keys of `@watch.deep` are replaced with the key paths of the changes inside them
+   * - Keys of arrays and maps watched shallowly are replaced with the key paths of the changed elements
+   *   (e.g., `tags.3`), see {@link changedElements}
+   * - Keys of `@nested.hoist` are replaced with the key paths of the changed elements without the key (e.g., `3`)
+   * - Key paths of nested objects are aggregated incrementally,
+   *   so a change in one of many nested objects does not iterate all of them
    */
   @computed.struct
   get changedKeyPaths(): ReadonlySet<KeyPath> {
-    const result = new Set(this.#changedKeys);
+    return traversals.changedKeyPaths.run(
+      this,
+      () => {
+        const result = this.#ownChangedKeyPaths();
+        for (const keyPath of this.#nestedChangedKeyPaths.value) {
+          result.add(keyPath);
+        }
+        return result;
+      },
+      () =>
+        NestedTraversal.collect<Watcher, ReadonlySet<KeyPath>>(this, (w, nested) => {
+          const result = w.#ownChangedKeyPaths();
+          for (const entry of w.#nestedFetcher) {
+            for (const keyPath of nested(entry.data) ?? []) {
+              result.add(KeyPath.build(entry.keyPath, keyPath));
+            }
+          }
+          return result;
+        })
+    );
+  }
+
+  /** The changed key paths, excluding the ones of nested watchers */
+  #ownChangedKeyPaths() {
+    const result = new Set<KeyPath>();
+    for (const key of this.#changedKeys) {
+      if (this.#hoistedKeys.has(key)) {
+        for (const keyPath of this.#hoistedElementKeyPaths(key)) {
+          result.add(keyPath);
+        }
+        continue;
+      }
+      if (this.#deepKeys.has(key)) {
+        for (const keyPath of this.#diffDeepKey(key).keys()) {
+          result.add(keyPath);
+        }
+        continue;
+      }
+      const elements = this.#diffElementsOfKey(key);
+      if (elements && elements.length > 0) {
+        for (const element of elements) {
+          result.add(element.keyPath);
+        }
+        continue;
+      }
+      result.add(key);
+    }
+    return result;
+  }
+
+  /**
+   * Find the changed key paths matching the key path
+   *
+   * @remarks
+   * - Accepts patterns such as `items.*.qty` and `address.**` (see {@link KeyPath.match})
+   * - Searches {@link changedKeyPaths}, so changes of nested objects are included
+   *
+   * @param prefixMatch Whether to include the changed key paths under the matching key paths
+   */
+  *findChangedKeyPaths(keyPath: KeyPath, prefixMatch = false): Generator<KeyPath> {
+    for (const changedKeyPath of this.changedKeyPaths) {
+      if (KeyPath.match(changedKeyPath, keyPath, prefixMatch)) {
+        yield changedKeyPath;
+      }
+    }
+  }
+
+  /** Check if there are changed key paths matching the key path */
+  hasChanges(keyPath: KeyPath, prefixMatch = false) {
+    for (const _ of this.findChangedKeyPaths(keyPath, prefixMatch)) {
+      return true;
+    }
+    return false;
+  }
+
+  /**
+   * The changes of elements of arrays, sets, and maps, keyed by the key paths of the collections
+   *
+   * Changes of nested objects are included.
+   *
+   * @remarks
+   * - Only available for keys watched shallowly (`@observable`, `@watch`, and `@nested`)
+   * - Elements are compared by identity with the baseline
+   * - Elements whose positions only shift due to additions or removals are not considered moved
+   * - Elements of `@nested.keyed` keys are addressed by their keys instead of indices,
+   *   so moved elements have the same `keyPath` and `oldKeyPath`
+   * - Not aggregated incrementally like {@link changedKeyPaths};
+   *   any change of a nested watcher re-computes the whole map by walking all nested watchers
+   */
+  @computed
+  get changedElements(): ReadonlyMap<KeyPath, readonly Watcher.ElementChange[]> {
+    return traversals.changedElements.run(
+      this,
+      () =>
+        this.#collectChangedElements((entry) =>
+          traversals.changedElements.visit(entry.data, entry.keyPath, () => entry.data.changedElements)
+        ),
+      () =>
+        NestedTraversal.collect<Watcher, ReadonlyMap<KeyPath, readonly Watcher.ElementChange[]>>(this, (w, nested) =>
+          w.#collectChangedElements((entry) => nested(entry.data))
+        )
+    );
+  }
+
+  /**
+   * Collect the changes of elements
+   *
+   * @param nested - A function that returns the changes of elements of a nested watcher, or `undefined` if skipped
+   */
+  #collectChangedElements(
+    nested: (
+      entry: StandardNestedFetcher.Entry<Watcher>
+    ) => ReadonlyMap<KeyPath, readonly Watcher.ElementChange[]> | undefined
+  ) {
+    const result = new Map<KeyPath, readonly Watcher.ElementChange[]>();
+    for (const key of this.#changedKeys) {
+      const elements = this.#diffElementsOfKey(key);
+      if (elements && elements.length > 0) {
+        result.set(this.#hoistedKeys.has(key) ? KeyPath.Self : key, elements);
+      }
+    }
     for (const entry of this.#nestedFetcher) {
-      for (const changedKeyPath of entry.data.changedKeyPaths) {
-        result.add(KeyPath.build(entry.keyPath, changedKeyPath));
+      for (const [keyPath, elements] of nested(entry) ?? []) {
+        result.set(
+          KeyPath.build(entry.keyPath, keyPath),
+          elements.map((element) => ({
+            ...element,
+            keyPath: KeyPath.build(entry.keyPath, element.keyPath),
+            ...(element.type === "moved" ? { oldKeyPath: KeyPath.build(entry.keyPath, element.oldKeyPath) } : null),
+          }))
+        );
       }
     }
     return result;
   }
 
+  /**
+   * Get the changes with their baseline and current values
+   *
+   * Changes of nested objects are included.
+   *
+   * @remarks
+   * - Values are read in the same way as they are compared;\
+   *   arrays, sets, and maps are shallow copies and boxed observables are unwrapped unless `@watch.ref` is used.
+   * - Keys without baselines are not included.
+   * - Changes of `@watch.deep` keys are reported per key path inside them.
+   * - Keys differ from {@link changedKeyPaths} for collections watched shallowly;
+   *   a changed collection is reported under its key with the whole values (e.g., `tags` rather than `tags.3`),
+   *   and changes of `@nested.hoist` keys themselves are not included. See {@link changedElements} for the elements.
+   * - Not cached; each call walks all nested watchers.
+   */
+  getChanges(): ReadonlyMap<KeyPath, Watcher.Change> {
+    const result = new Map<KeyPath, Watcher.Change>();
+    for (const key of this.#changedKeys) {
+      if (this.#hoistedKeys.has(key)) continue;
+      const baseline = this.#baselines.get(key);
+      if (!baseline) continue;
+      if (this.#deepKeys.has(key)) {
+        for (const [keyPath, change] of this.#diffDeepKey(key)) {
+          result.set(keyPath, change);
+        }
+        continue;
+      }
+      result.set(key, { oldValue: baseline.value, newValue: baseline.read() });
+    }
+    for (const entry of traversals.getChanges.entries(this, this.#nestedFetcher)) {
+      for (const [changedKeyPath, change] of entry.data.getChanges()) {
+        result.set(KeyPath.build(entry.keyPath, changedKeyPath), change);
+      }
+    }
+    return result;
+  }
+
+  /**
+   * Export the changes as a JSON Patch document ([RFC 6902](https://datatracker.ietf.org/doc/html/rfc6902))
+   *
+   * Changes of nested objects are included.
+   *
+   * @remarks
+   * - Key paths are converted to JSON Pointers with {@link KeyPath.toJsonPointer}
+   * - Arrays and maps of `@nested` keys are diffed element-wise;\
+   *   additions, removals, and replacements of elements are represented as separate operations
+   * - Values of `@watch.deep` keys are diffed per key path inside them
+   * - Other values are replaced as a whole
+   * - Sets are represented as arrays and maps as objects
+   * - Elements of `@nested.keyed` keys are addressed by their indices, as JSON Pointers require
+   * - Values are not serialized; models are included as-is
+   * - Builds the document on each call, visiting every nested watcher
+   */
+  toJsonPatch(): JsonPatch {
+    const result: JsonPatch.Operation[] = [];
+    const replacedKeys = new Set<KeyPath>();
+    const newWatchers = new Set<Watcher>();
+
+    for (const key of this.#changedKeys) {
+      const baseline = this.#baselines.get(key);
+      if (!baseline) continue;
+      if (this.#deepKeys.has(key)) {
+        for (const [keyPath, change] of this.#diffDeepKey(key)) {
+          const pointer = KeyPath.toJsonPointer(keyPath);
+          result.push(...diffJsonPatch(pointer, change.oldValue, change.newValue, false).operations);
+        }
+        continue;
+      }
+      const keyPath = this.#hoistedKeys.has(key) ? KeyPath.Self : key;
+      const { operations, newElements } = diffJsonPatch(
+        KeyPath.toJsonPointer(keyPath),
+        baseline.value,
+        baseline.read(),
+        this.#nestedKeys.has(key)
+      );
+      result.push(...operations);
+      if (newElements) {
+        for (const element of newElements) {
+          const watcher = Watcher.getSafe(element);
+          if (watcher) newWatchers.add(watcher);
+        }
+      } else {
+        replacedKeys.add(keyPath);
+      }
+    }
+
+    for (const entry of traversals.toJsonPatch.entries(this, this.#nestedFetcher)) {
+      // Already included in the operations above
+      if (replacedKeys.has(entry.key) || newWatchers.has(entry.data)) continue;
+
+      const pointer = KeyPath.toJsonPointer(entry.rawKeyPath); // JSON Pointers address elements by indices
+      for (const operation of entry.data.toJsonPatch()) {
+        result.push({ ...operation, path: pointer + operation.path });
+      }
+    }
+    return result;
+  }
+
+  /**
+   * Subscribe to change events
+   *
+   * @remarks
+   * - An event is emitted for each key whose change is detected, including reverts to the baseline
+   * - Events of nested watchers are relayed with key paths relative to this watcher
+   * - Changes of `@nested.hoist` keys are emitted with {@link KeyPath.Self}
+   * - No events are emitted for changes made inside `unwatch()`
+   * - Listeners are called synchronously in reactions, after the outermost transaction completes
+   *
+   * @returns A function to unsubscribe
+   */
+  subscribe(listener: (event: Watcher.ChangeEvent) => void): () => void {
+    if (warnIfDisposed(this, "subscribe")) return () => {};
+    return this.#subscribe((event) =>
+      listener({
+        keyPath: event.keyPath,
+        mode: event.mode,
+        timestamp: event.timestamp,
+        nested: event.nested,
+        oldValue: event.oldValue,
+        newValue: event.newValue,
+      })
+    );
+  }
+
   /** Nested watchers */
   get nested() {
     return this.#nestedFetcher.dataMap;
   }
 
+  /**
+   * The parent watcher that owns this watcher via `@nested`, or `null` if this is a root
+   *
+   * @remarks
+   * - Known only while the parent watcher exists and is not disposed
+   * - Returns the first one if shared by multiple parents, which {@link root} and {@link keyPathFromRoot} follow
+   */
+  get parent(): Watcher | null {
+    return StandardNestedFetcher.getParent(this.#target, findWatcher)?.parent ?? null;
+  }
+
+  /** The topmost ancestor watcher, or this watcher itself if it has no parent */
+  get root(): Watcher {
+    return StandardNestedFetcher.getRoot<Watcher>(this, this.#target, findWatcher);
+  }
+
+  /** The key path of this watcher from the {@link root} (e.g., `items.0`) */
+  get keyPathFromRoot(): KeyPath {
+    return StandardNestedFetcher.getKeyPathFromRoot(this.#target, findWatcher);
+  }
+
   /**
    * Reset the changed state
    *
@@ -235,19 +871,88 @@ export class Watcher {
    * - Clears all changed keys
    * - Resets changedTick to 0
    * - Clears assumeChanged flag
+   * - Captures the current values as new baselines
    * - Resets all nested watchers
    */
   @action
   reset() {
+    if (warnIfDisposed(this, "reset")) return;
     this.#changedKeys.clear();
     this.#changedTick.set(0n);
     this.#assumeChanged.set(false);
 
-    for (const entry of this.#nestedFetcher) {
+    for (const baseline of this.#baselines.values()) {
+      baseline.value = baseline.last = baseline.read();
+    }
+
+    for (const entry of traversals.reset.entries(this, this.#nestedFetcher)) {
       entry.data.reset();
     }
   }
 
+  /**
+   * Reset the changed state of a key path, leaving other changes intact
+   *
+   * @remarks
+   * - Captures the current value at the key path as the new baseline
+   * - Key paths inside `@watch.deep` keys only take the values at the key path into the baseline
+   * - Resetting a removed element of an array inside `@watch.deep` keys resets the removed elements after it as well
+   * - Resetting a key path of a changed element resets the whole collection,
+   *   since elements are compared by identity with the baseline
+   * - Nested watchers at or under the key path are reset as well when `prefix: true` is specified
+   * - Resets changedTick to 0 if no changes remain
+   * - Does not clear assumeChanged flag unless the self path is reset with `prefix: true`
+   *
+   * @param keyPath - The key path relative to this watcher
+   */
+  @action
+  resetKeyPath(keyPath: KeyPath, opt?: Watcher.ResetKeyPathOptions) {
+    if (warnIfDisposed(this, "resetKeyPath")) return;
+    const prefix = opt?.prefix ?? false;
+    if (prefix && KeyPath.isSelf(keyPath)) {
+      this.reset();
+      return;
+    }
+
+    for (const [key, baseline] of this.#baselines) {
+      const ownKeyPath = this.#hoistedKeys.has(key) ? KeyPath.Self : key;
+      if (prefix ? KeyPath.isUnder(ownKeyPath, keyPath) : ownKeyPath === keyPath) {
+        baseline.value = baseline.last = baseline.read();
+        this.#changedKeys.delete(key);
+        continue;
+      }
+
+      if (KeyPath.isSelf(keyPath) || !KeyPath.isUnder(keyPath, ownKeyPath)) continue;
+      if (this.#deepKeys.has(key)) {
+        const relativeKeyPath = KeyPath.getRelative(keyPath, ownKeyPath) ?? KeyPath.Self;
+        baseline.value = rebaseDeep(baseline.value, baseline.read(), relativeKeyPath, prefix);
+        if (baseline.equals(baseline.value, baseline.read())) {
+          this.#changedKeys.delete(key);
+        }
+        continue;
+      }
+      const elements = this.#diffElementsOfKey(key);
+      if (elements?.some((element) => KeyPath.isUnder(element.keyPath, keyPath))) {
+        baseline.value = baseline.last = baseline.read();
+        this.#changedKeys.delete(key);
+      }
+    }
+
+    for (const entry of traversals.resetKeyPath.entries(this, this.#nestedFetcher)) {
+      if (!KeyPath.isSelf(keyPath) && KeyPath.isUnder(keyPath, entry.keyPath)) {
+        entry.data.resetKeyPath(KeyPath.getRelative(keyPath, entry.keyPath) ?? KeyPath.Self, opt);
+      } else if (KeyPath.isSelf(keyPath) && KeyPath.isSelf(entry.keyPath)) {
+        entry.data.resetKeyPath(KeyPath.Self, opt);
+      } else if (prefix && KeyPath.isUnder(entry.keyPath, keyPath)) {
+        entry.data.reset();
+      }
+    }
+
+    if (!this.changed) {
+      this.#changedTick.set(0n);
+    }
+  }
+
   /**
    * Assume some changes have been made
    *
@@ -255,26 +960,266 @@ export class Watcher {
    */
   @action
   assumeChanged() {
-    if (!Watcher.isWatching) return;
+    if (warnIfDisposed(this, "assumeChanged")) return;
+    if (!this.#isWatching) return;
     this.#assumeChanged.set(true);
   }
 
-  /** Mark a key as changed */
+  /** Whether the watcher is paused */
+  get isPaused() {
+    return this.#pauseCount > 0;
+  }
+
+  /**
+   * Pause watching changes of this watcher
+   *
+   * Unlike `unwatch()`, it does not affect other watchers.
+   * Values changed while paused become the new baselines.
+   *
+   * @remarks
+   * - Calls can be nested; watching resumes when {@link resume} is called as many times as this method
+   * - Nested watchers keep watching unless `nested: true` is specified.\
+   *   Only nested watchers at the time of the call are paused.
+   * - Warning: When resumed inside a transaction, it only starts watching again when the outermost transaction completes.
+   */
+  pause(opt?: Watcher.PauseOptions) {
+    this.#pauseCount++;
+    const nested = opt?.nested ? Array.from(this.nested.values()) : [];
+    for (const watcher of nested) {
+      watcher.pause(opt);
+    }
+    this.#pausedNested.push(nested);
+  }
+
+  /**
+   * Resume watching changes paused by {@link pause}
+   *
+   * It has no effect if the watcher is not paused.
+   */
+  resume() {
+    const nested = this.#pausedNested.pop();
+    if (!nested) return;
+    for (const watcher of nested) {
+      watcher.resume();
+    }
+    // Reactions of the watcher run at the end of the transaction
+    autorun(() => this.#pauseCount--);
+  }
+
+  /** Whether changes are detected in the current transaction */
+  get #isWatching() {
+    return Watcher.isWatching && this.#pauseCount === 0;
+  }
+
+  /** Whether the watcher has been disposed */
+  get isDisposed() {
+    return this.#isDisposed;
+  }
+
+  /**
+   * Stop watching and release all resources
+   *
+   * @remarks
+   * - Disposes all reactions and subscriptions
+   * - Disposes all nested watchers and unlinks them from this watcher (see {@link parent}),\
+   *   except the ones shared with other parents
+   * - The changed state is kept as it was at the time of disposal
+   * - Calling this method more than once has no effect
+   */
+  dispose() {
+    if (this.#isDisposed) return;
+    this.#isDisposed = true;
+
+    for (const dispose of this.#disposers.splice(0)) {
+      dispose();
+    }
+    this.#listeners.clear();
+    this.#unsubscribeNested?.();
+    this.#unsubscribeNested = null;
+
+    for (const entry of this.#nestedFetcher) {
+      if (entry.data.parent) continue; // Still owned by another parent
+      entry.data.dispose();
+    }
+  }
+
+  /**
+   * Mark a key as changed
+   *
+   * The key is marked as unchanged instead if the value is equal to its baseline.
+   * When watching is disabled, the current value becomes the new baseline.
+   */
   #didChange(key: KeyPath) {
-    if (!Watcher.isWatching) return;
+    const baseline = this.#baselines.get(key);
+    if (!this.#isWatching) {
+      if (baseline) {
+        baseline.value = baseline.last = baseline.read();
+      }
+      return;
+    }
     runInAction(() => {
-      this.#changedKeys.add(key);
+      if (baseline) {
+        const oldValue = baseline.last;
+        const newValue = (baseline.last = baseline.read());
+        if (baseline.equals(baseline.value, newValue)) {
+          this.#changedKeys.delete(key);
+        } else {
+          this.#changedKeys.add(key);
+        }
+        this.#emit({
+          keyPath: this.#hoistedKeys.has(key) ? KeyPath.Self : key,
+          mode: baseline.mode,
+          timestamp: Date.now(),
+          nested: false,
+          oldValue,
+          newValue,
+          write: baseline.write,
+        });
+      } else {
+        this.#changedKeys.add(key);
+      }
       this.#incrementChangedTick();
     });
   }
 
+  /**
+   * Capture the baseline of a key and start watching it
+   *
+   * @param getValue - A function to get the current value of the key
+   * @param write - A function to write a value back to the key
+   */
+  #watchKey(key: KeyPath, annotation: WatchAnnotation, getValue: () => any, write: ((value: any) => void) | null) {
+    const { read, equals } = createReader(annotation, getValue);
+    const value = untracked(read);
+    this.#baselines.set(key, { mode: annotation.mode, read, equals, write, value, last: value });
+    this.#disposers.push(reaction(read, () => this.#didChange(key)));
+  }
+
+  /** Diff the baseline and current values of a `@watch.deep` key */
+  #diffDeepKey(key: KeyPath) {
+    const baseline = this.#baselines.get(key);
+    if (!baseline) return new Map<KeyPath, DeepDiffEntry>();
+    return diffDeep(key, baseline.value, baseline.read());
+  }
+
+  /**
+   * Diff the elements of a key watched shallowly
+   *
+   * @returns The changes of the elements, or `null` if the key is not a collection watched shallowly
+   */
+  #diffElementsOfKey(key: KeyPath) {
+    const baseline = this.#baselines.get(key);
+    if (!baseline || baseline.mode !== WatchMode.Shallow) return null;
+    return diffElements(
+      this.#hoistedKeys.has(key) ? KeyPath.Self : key,
+      baseline.value,
+      baseline.read(),
+      this.#keyedKeys.get(key)
+    );
+  }
+
+  /**
+   * Get the key paths of the changed elements of a `@nested.hoist` key
+   *
+   * Elements of sets are excluded since they have no key paths other than the self path.
+   */
+  *#hoistedElementKeyPaths(key: KeyPath) {
+    for (const element of this.#diffElementsOfKey(key) ?? []) {
+      if (KeyPath.isSelf(element.keyPath)) continue;
+      yield element.keyPath;
+    }
+  }
+
+  /**
+   * Emit a change event to the listeners
+   *
+   * Events relayed back by nested watchers referring back to this watcher (cycles) are ignored.
+   */
+  #emit(event: WatcherChangeEvent) {
+    if (this.#isEmitting) return;
+    this.#isEmitting = true;
+    try {
+      for (const listener of this.#listeners) {
+        listener(event);
+      }
+    } finally {
+      this.#isEmitting = false;
+    }
+  }
+
+  /**
+   * Add a listener
+   *
+   * Events of nested watchers are relayed while there are listeners.
+   */
+  #subscribe(listener: (event: WatcherChangeEvent) => void) {
+    if (this.#isDisposed) return () => {};
+    this.#listeners.add(listener);
+    if (!this.#unsubscribeNested) {
+      this.#unsubscribeNested = () => {}; // Nested watchers referring back to this watcher do not relay again
+      this.#unsubscribeNested = this.#subscribeNested();
+    }
+    return () => {
+      if (!this.#listeners.delete(listener)) return;
+      if (this.#listeners.size === 0) {
+        this.#unsubscribeNested?.();
+        this.#unsubscribeNested = null;
+      }
+    };
+  }
+
+  /**
+   * Relay events of nested watchers
+   *
+   * @returns A function to stop relaying
+   */
+  #subscribeNested() {
+    const subscriptions = new Map<Watcher, { keyPath: KeyPath; unsubscribe: () => void }>();
+    const dispose = reaction(
+      () => this.nested,
+      (nested) => {
+        const watchers = new Map<Watcher, KeyPath>();
+        for (const [keyPath, watcher] of nested) {
+          watchers.set(watcher, keyPath);
+        }
+        for (const [watcher, subscription] of subscriptions) {
+          if (watchers.has(watcher)) continue;
+          subscription.unsubscribe();
+          subscriptions.delete(watcher);
+        }
+        for (const [watcher, keyPath] of watchers) {
+          const subscription = subscriptions.get(watcher);
+          if (subscription) {
+            subscription.keyPath = keyPath; // Key paths can change (e.g., elements of arrays)
+            continue;
+          }
+          const newSubscription = {
+            keyPath,
+            unsubscribe: watcher.#subscribe((event) =>
+              this.#emit({ ...event, keyPath: KeyPath.build(newSubscription.keyPath, event.keyPath), nested: true })
+            ),
+          };
+          subscriptions.set(watcher, newSubscription);
+        }
+      },
+      { fireImmediately: true, equals: () => false } // The map of nested watchers is updated in place
+    );
+    return () => {
+      dispose();
+      for (const subscription of subscriptions.values()) {
+        subscription.unsubscribe();
+      }
+      subscriptions.clear();
+    };
+  }
+
   /**
    * Increment the changed tick
    *
    * For when a key or key path is changed.
    */
   #incrementChangedTick() {
-    if (!Watcher.isWatching) return;
+    if (!this.#isWatching) return;
     runInAction(() => {
       this.#changedTick.set(this.#changedTick.get() + 1n);
     });
@@ -285,14 +1230,10 @@ export class Watcher {
    */
   #processMobxAnnotations(target: object) {
     for (const [key, getValue] of getMobxObservableAnnotations(target)) {
-      if (typeof key !== "string") continue; // symbol and number keys are not supported
       if (this.#processedKeys.has(key)) continue;
       this.#processedKeys.add(key);
 
-      reaction(
-        () => shallowReadValue(getValue()),
-        () => this.#didChange(KeyPath.build(key))
-      );
+      this.#watchKey(KeyPath.encodeKey(key), { mode: WatchMode.Shallow }, getValue, createWriter(target, key, true));
     }
   }
 
@@ -300,34 +1241,40 @@ export class Watcher {
    * Process `@nested` annotations
    */
   #processNestedAnnotations(target: object) {
-    for (const { key, getValue, hoist } of getNestedAnnotations(target)) {
-      if (typeof key !== "string") continue; // symbol and number keys are not supported
+    for (const { key, getValue, hoist, keyOf, record } of getNestedAnnotations(target)) {
       if (this.#processedKeys.has(key)) continue;
       this.#processedKeys.add(key);
 
-      reaction(
-        () => shallowReadValue(getValue()),
-        () => (hoist ? this.#incrementChangedTick() : this.#didChange(KeyPath.build(key)))
+      const keyPath = KeyPath.encodeKey(key);
+      this.#nestedKeys.add(keyPath);
+      if (hoist) {
+        this.#hoistedKeys.add(keyPath); // Changes to the hoisted key itself are not exposed
+      }
+      if (keyOf) {
+        this.#keyedKeys.set(keyPath, keyOf);
+      }
+      this.#watchKey(keyPath, { mode: WatchMode.Shallow, record }, getValue, createWriter(target, key, true, record));
+      const nestedChanged = NestedAggregator.some(
+        () => this.#nestedFetcher.chunks(hoist ? KeyPath.Self : keyPath),
+        (w, keyPath) => traversals.changed.visit(w, keyPath, () => w.changed) ?? false
       );
-      reaction(
+      const dispose = reaction(
         () => {
-          let changed = false;
-          for (const [, value] of unwrapShallowContents(getValue())) {
-            if (Watcher.getSafe(value)?.changed) {
-              changed = true;
-              // Warning: Do not early break here.
-              // We need to process all nested values to be reactive in future changes.
-            }
+          try {
+            return traversals.changed.run(this, () => nestedChanged.value);
+          } catch (error) {
+            if (error instanceof NestedCycleError) return false; // Thrown to the readers of `changed` instead
+            throw error;
           }
-          return changed;
         },
         (changed) => changed && this.#incrementChangedTick()
       );
+      this.#disposers.push(dispose);
     }
   }
 
   /**
-   * Process `@watch` and `@watch.ref` annotations
+   * Process `@watch` annotations and its variants
    */
   #processWatchAnnotations(target: object) {
     const processor = getAnnotationProcessor(target);
@@ -337,17 +1284,16 @@ export class Watcher {
     if (!watchAnnotations) return;
 
     for (const [key, metadata] of watchAnnotations) {
-      if (typeof key !== "string") continue; // symbol and number keys are not supported
       if (this.#processedKeys.has(key)) continue;
       this.#processedKeys.add(key);
 
-      const isShallow = metadata.data.at(-1) === WatchMode.Shallow; // Last annotation prevails
+      const annotation: WatchAnnotation = metadata.data.at(-1); // Last annotation prevails
       const getValue = () => (key in target ? (target as any)[key] : metadata.get?.());
-
-      reaction(
-        () => (isShallow ? shallowReadValue(getValue()) : getValue()),
-        () => this.#didChange(KeyPath.build(key))
-      );
+      const isShallow = annotation.mode === WatchMode.Shallow;
+      if (annotation.mode === WatchMode.Deep) {
+        this.#deepKeys.add(KeyPath.encodeKey(key));
+      }
+      this.#watchKey(KeyPath.encodeKey(key), annotation, getValue, createWriter(target, key, isShallow));
     }
   }
 
@@ -362,7 +1308,6 @@ export class Watcher {
     if (!unwatchAnnotations) return;
 
     for (const [key] of unwatchAnnotations) {
-      if (typeof key !== "string") continue; // symbol and number keys are not supported
       this.#processedKeys.add(key);
     }
   }
@@ -371,11 +1316,72 @@ export class Watcher {
   [internalToken]() {
     return {
       didChange: this.#didChange.bind(this),
+      subscribe: this.#subscribe.bind(this),
     };
   }
 }
 
+export namespace Watcher {
+  /** Options for {@link Watcher#pause} */
+  export type PauseOptions = {
+    /**
+     * Whether to pause nested watchers as well
+     *
+     * @default false
+     */
+    nested?: boolean;
+  };
+
+  /** Options for {@link Watcher#resetKeyPath} */
+  export type ResetKeyPathOptions = {
+    /**
+     * Whether to reset the key paths under the key path as well
+     *
+     * @default false
+     */
+    prefix?: boolean;
+  };
+
+  /** Change event emitted to subscribers */
+  export type ChangeEvent = {
+    /** The key path that has changed */
+    readonly keyPath: KeyPath;
+    /** The watch mode of the key */
+    readonly mode: `${WatchMode}`;
+    /** The time when the change was detected [milliseconds since epoch] */
+    readonly timestamp: number;
+    /** Whether the change came from a nested watcher */
+    readonly nested: boolean;
+    /** The value before the change */
+    readonly oldValue: unknown;
+    /** The value after the change */
+    readonly newValue: unknown;
+  };
+
+  /** @inline */
+  export type ElementChange = ElementDiff;
+
+  /** Change of a key path */
+  export type Change = {
+    /** The baseline value */
+    readonly oldValue: unknown;
+    /** The current value */
+    readonly newValue: unknown;
+  };
+}
+
 /** @internal @ignore */
 export function debugWatcher(watcher: Watcher) {
   return watcher[internalToken]();
 }
+
+/**
+ * Subscribe to changes of watched keys
+ *
+ * @internal @ignore
+ *
+ * @returns A function to unsubscribe
+ */
+export function subscribeWatcher(watcher: Watcher, listener: (event: WatcherChangeEvent) => void) {
+  return watcher[internalToken]().subscribe(listener);
+}
@@ -0,0 +1,41 @@
+import { createAnnotation } from "../src/annotation";
+
+const label = createAnnotation("label", (text: string) => text);
+const sensitive = createAnnotation("sensitive");
+
+describe("createAnnotation", () => {
+  class Parent {
+    @label("Parent 1") accessor field1 = "";
+    @sensitive #secret = "";
+    @label("Getter")
+    get getter() {
+      return this.#secret;
+    }
+  }
+
+  class Child extends Parent {
+    @label("Child 1") accessor field2 = "";
+  }
+
+  test("annotations are registered per instance", () => {
+    const parent = new Parent();
+    expect(label.getAll(parent)).toEqual(
+      new Map([
+        ["field1", ["Parent 1"]],
+        ["getter", ["Getter"]],
+      ])
+    );
+    expect(sensitive.getAll(parent)).toEqual(new Map([["#secret", [true]]]));
+  });
+
+  test("annotations of parent classes are inherited", () => {
+    expect(label.getAll(new Child())).toEqual(
+      new Map([
+        ["field1", ["Parent 1"]],
+        ["getter", ["Getter"]],
+        ["field2", ["Child 1"]],
+      ])
+    );
+    expect(label.getAll(new Parent()).has("field2")).toBe(false);
+  });
+});
@@ -0,0 +1,33 @@
+/* eslint-disable mobx/missing-make-observable */
+import { observable, runInAction } from "mobx";
+import { makeSentinel } from "../src/sentinel";
+import { unwatch, watch, Watcher } from "../src/watcher";
+
+describe("makeSentinel", () => {
+  class Sample {
+    @watch.ref @observable accessor field1 = new Set<string>();
+    @observable accessor field2 = new Set<string>();
+    @observable accessor field3 = 0;
+
+    constructor() {
+      makeSentinel(this, { field2: watch.ref, field3: unwatch });
+    }
+  }
+
+  test("annotations are merged with the ones of decorators", () => {
+    const sample = new Sample();
+    const watcher = Watcher.get(sample);
+
+    runInAction(() => {
+      sample.field1.add("a");
+      sample.field2.add("a");
+      sample.field3++;
+    });
+    expect(watcher.changed).toBe(false);
+
+    runInAction(() => {
+      sample.field2 = new Set();
+    });
+    expect(watcher.changedKeys).toEqual(new Set(["field2"]));
+  });
+});
@@ -1,6 +1,6 @@
 /* eslint-disable mobx/missing-make-observable */
 import { observable, computed, runInAction } from "mobx";
-import { Watcher } from "../src/watcher";
+import { Watcher, watch } from "../src/watcher";
 
 describe("Annotations", () => {
   describe("@observable / @computed", () => {
@@ -85,4 +85,50 @@ describe("Annotations", () => {
       });
     });
   });
+
+  describe("@watch.struct", () => {
+    class Sample {
+      @watch.struct @observable accessor date = new Date(0);
+      @watch.struct @observable accessor point = { x: 0, y: 0 };
+    }
+
+    test("replacing with a structurally equal value is not tracked", () => {
+      const sample = new Sample();
+      const watcher = Watcher.get(sample);
+
+      runInAction(() => {
+        sample.date = new Date(0);
+        sample.point = { x: 0, y: 0 };
+      });
+      expect(watcher.changed).toBe(false);
+
+      runInAction(() => {
+        sample.date = new Date(1);
+      });
+      expect(watcher.changedKeys).toEqual(new Set(["date"]));
+    });
+  });
+
+  describe("@watch.equals", () => {
+    class Sample {
+      @watch.equals((a: string, b: string) => a.toLowerCase() === b.toLowerCase())
+      @observable
+      accessor name = "john";
+    }
+
+    test("changes are tracked with the custom comparison", () => {
+      const sample = new Sample();
+      const watcher = Watcher.get(sample);
+
+      runInAction(() => {
+        sample.name = "JOHN";
+      });
+      expect(watcher.changed).toBe(false);
+
+      runInAction(() => {
+        sample.name = "Jane";
+      });
+      expect(watcher.changedKeys).toEqual(new Set(["name"]));
+    });
+  });
 });
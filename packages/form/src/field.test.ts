@@ -283,4 +283,61 @@ describe("FormField", () => {
       expect(internal.isReported.get()).toBe(false);
     });
   });
+
+  describe("#dispose", () => {
+    afterEach(() => {
+      vi.unstubAllEnvs();
+    });
+
+    it("cancels the pending auto-finalization", async () => {
+      const { field, waitForDelay } = setupEnv();
+      const spy = vi.spyOn(field, "finalizeChangeIfNeeded");
+
+      field.markAsChanged("intermediate");
+      field.dispose();
+      expect(field.isDisposed).toBe(true);
+      await waitForDelay();
+      expect(spy).toBeCalledTimes(0);
+    });
+
+    it("ignores error reporting and touches after disposal", () => {
+      const { field, updateErrors } = setupEnv();
+      const internal = debugFormField(field);
+      const warn = vi.spyOn(console, "warn").mockImplementation(() => {});
+
+      updateErrors((b) => b.invalidate("test", "error"));
+      field.dispose();
+      field.reportError();
+      field.markAsTouched();
+      expect(internal.isReported.get()).toBe(false);
+      expect(field.isErrorReported).toBe(undefined);
+      expect(field.isTouched).toBe(false);
+      warn.mockRestore();
+    });
+
+    it("warns once when used after disposal", () => {
+      const { field } = setupEnv();
+      const warn = vi.spyOn(console, "warn").mockImplementation(() => {});
+
+      field.dispose();
+      field.markAsChanged("intermediate");
+      field.markAsTouched();
+      expect(field.isChanged).toBe(false);
+      expect(warn).toHaveBeenCalledTimes(1);
+      expect(warn).toHaveBeenCalledWith("FormField#markAsChanged: The field has been disposed");
+      warn.mockRestore();
+    });
+
+    it("does not warn in production", () => {
+      vi.stubEnv("NODE_ENV", "production");
+      const { field } = setupEnv();
+      const warn = vi.spyOn(console, "warn").mockImplementation(() => {});
+
+      field.dispose();
+      field.markAsChanged("intermediate");
+      expect(field.isChanged).toBe(false);
+      expect(warn).not.toHaveBeenCalled();
+      warn.mockRestore();
+    });
+  });
 });
@@ -1,8 +1,9 @@
 import { action, comparer, computed, makeObservable, observable, reaction } from "mobx";
 import { v4 as uuidV4 } from "uuid";
-import { KeyPath, type Validator } from "@mobx-sentinel/core";
+import { createDisposedWarning, KeyPath, type Validator } from "@mobx-sentinel/core";
 
 const internalToken = Symbol("formField.internal");
+const warnIfDisposed = createDisposedWarning("FormField", "field");
 
 /**
  * Form field that tracks input state and validation errors
@@ -23,6 +24,8 @@ export class FormField {
   readonly #isReported = observable.box(false);
   readonly #isReportedDelayed = observable.box(false);
   #timerId: number | null = null;
+  readonly #disposeReaction: () => void;
+  #isDisposed = false;
 
   /** @ignore */
   constructor(args: { fieldName: string; validator: Validator<any>; getFinalizationDelayMs: () => number }) {
@@ -32,7 +35,7 @@ export class FormField {
     this.#getFinalizationDelayMs = args.getFinalizationDelayMs;
 
     // Delay the error reporting until the validation is up-to-date.
-    reaction(
+    this.#disposeReaction = reaction(
       () => [this.#isReported.get(), this.validator.isValidating] as const,
       ([isReported, isValidating]) => {
         if (!isValidating) {
@@ -100,7 +103,7 @@ export class FormField {
    */
   @computed.struct
   get errors(): ReadonlySet<string> {
-    return this.validator.getErrorMessages(KeyPath.build(this.fieldName));
+    return this.validator.getErrorMessages(KeyPath.encodeKey(this.fieldName));
   }
 
   /**
@@ -110,7 +113,7 @@ export class FormField {
    */
   @computed
   get hasErrors() {
-    return this.validator.hasErrors(KeyPath.build(this.fieldName));
+    return this.validator.hasErrors(KeyPath.encodeKey(this.fieldName));
   }
 
   /**
@@ -137,6 +140,7 @@ export class FormField {
    */
   @action
   markAsTouched() {
+    if (warnIfDisposed(this, "markAsTouched")) return;
     this.#isTouched.set(true);
   }
 
@@ -153,6 +157,7 @@ export class FormField {
    */
   @action
   markAsChanged(type: FormField.ChangeType = "final") {
+    if (warnIfDisposed(this, "markAsChanged")) return;
     this.#changeType.set(type);
 
     switch (type) {
@@ -175,6 +180,7 @@ export class FormField {
    */
   @action
   reportError() {
+    if (warnIfDisposed(this, "reportError")) return;
     this.#isReported.set(true);
   }
 
@@ -186,6 +192,26 @@ export class FormField {
     }
   }
 
+  /** Whether the field has been disposed */
+  get isDisposed() {
+    return this.#isDisposed;
+  }
+
+  /**
+   * Release all resources
+   *
+   * @remarks
+   * - Disposes the reaction for delayed error reporting
+   * - Cancels any pending auto-finalization
+   * - Calling this method more than once has no effect
+   */
+  dispose() {
+    if (this.#isDisposed) return;
+    this.#isDisposed = true;
+    this.#disposeReaction();
+    this.#cancelFinalizeChangeWithDelay();
+  }
+
   #finalizeChangeWithDelay() {
     this.#cancelFinalizeChangeWithDelay();
     this.#timerId = +setTimeout(() => {
@@ -57,6 +57,10 @@ describe("Form", () => {
       }).toThrowError(/Expected an object/);
     });
 
+    test("a form of a specific type is assignable to a form of unknown", () => {
+      expectTypeOf<Form<NestedModel>>().toMatchTypeOf<Form<unknown>>();
+    });
+
     it("returns the same instance for the same subject", () => {
       const model = new SampleModel();
       const form1 = Form.get(model);
@@ -141,6 +145,127 @@ describe("Form", () => {
       expect(Form.get(model, key)).not.toBe(formWithKey); // New instance is created
       expect(Form.get(model)).toBe(form); // Instances with different keys are not disposed
     });
+
+    it("calls #dispose on the disposed instances", () => {
+      const model = new SampleModel();
+      const form = Form.get(model);
+      Form.dispose(model);
+      expect(form.isDisposed).toBe(true);
+    });
+  });
+
+  describe("#dispose", () => {
+    afterEach(() => {
+      vi.unstubAllEnvs();
+    });
+
+    it("removes the form from the cache", () => {
+      const model = new SampleModel();
+      const form = Form.get(model);
+      form.dispose();
+      expect(form.isDisposed).toBe(true);
+      expect(Form.get(model)).not.toBe(form);
+    });
+
+    it("disposes the fields", () => {
+      const model = new SampleModel();
+      const form = Form.get(model);
+      const field = form.getField("field");
+      form.dispose();
+      expect(field.isDisposed).toBe(true);
+    });
+
+    it("disposes the sub-forms", () => {
+      const model = new NestedModel();
+      const form = Form.get(model);
+      const subForm = Form.get(model.sample);
+      const arrayForm = Form.get(model.array[0]);
+      form.dispose();
+      expect(subForm.isDisposed).toBe(true);
+      expect(arrayForm.isDisposed).toBe(true);
+    });
+
+    it("removes submission handlers", async () => {
+      const model = new SampleModel();
+      const form = Form.get(model);
+      const handler = vi.fn(async () => true);
+      form.addHandler("submit", handler);
+      form.dispose();
+
+      const warn = vi.spyOn(console, "warn").mockImplementation(() => {});
+      expect(await form.submit({ force: true })).toBe(false);
+      expect(handler).not.toHaveBeenCalled();
+      warn.mockRestore();
+    });
+
+    it("aborts the in-progress submission", async () => {
+      const model = new SampleModel();
+      const form = Form.get(model);
+      let signal: AbortSignal | undefined;
+      form.addHandler("submit", async (abortSignal) => {
+        signal = abortSignal;
+        return new Promise((resolve) => setTimeout(() => resolve(true), 50));
+      });
+
+      const promise = form.submit({ force: true });
+      await vi.waitFor(() => expect(signal).toBeDefined());
+      form.dispose();
+      expect(signal!.aborted).toBe(true);
+      await promise;
+    });
+
+    it("does not dispose the watcher and the validator", () => {
+      const model = new SampleModel();
+      const form = Form.get(model);
+      form.dispose();
+      expect(form.watcher.isDisposed).toBe(false);
+      expect(form.validator.isDisposed).toBe(false);
+    });
+
+    it("ignores the methods changing the state after disposal", () => {
+      const model = new SampleModel();
+      const form = Form.get(model);
+      const field = form.getField("field");
+      const warn = vi.spyOn(console, "warn").mockImplementation(() => {});
+
+      runInAction(() => (model.field = false));
+      form.dispose();
+      form.reset();
+      form.reportError();
+      expect(form.watcher.changed).toBe(true);
+      expect(field.isErrorReported).toBe(undefined);
+
+      expect(form.getField("field")).toBe(field);
+      const newField = form.getField("otherField");
+      expect(newField.isDisposed).toBe(true);
+      expect(form.getField("otherField")).not.toBe(newField);
+      warn.mockRestore();
+    });
+
+    it("warns once when used after disposal", () => {
+      const model = new SampleModel();
+      const form = Form.get(model);
+      const warn = vi.spyOn(console, "warn").mockImplementation(() => {});
+
+      form.dispose();
+      form.reset();
+      form.reportError();
+      expect(warn).toHaveBeenCalledTimes(1);
+      expect(warn).toHaveBeenCalledWith("Form#reset: The form has been disposed");
+      warn.mockRestore();
+    });
+
+    it("does not warn in production", () => {
+      vi.stubEnv("NODE_ENV", "production");
+      const model = new SampleModel();
+      const form = Form.get(model);
+      const warn = vi.spyOn(console, "warn").mockImplementation(() => {});
+
+      form.dispose();
+      form.reset();
+      expect(warn).not.toHaveBeenCalled();
+      warn.mockRestore();
+    });
   });
 
   describe("#config, #configure", () => {
@@ -210,6 +335,34 @@ describe("Form", () => {
       expect(observed!.size).toBe(3);
       expect(observed).toEqual(form.subForms);
     });
+
+    it("keys sub-forms via @nested.keyed", () => {
+      class Row {
+        @observable field = true;
+
+        constructor(readonly id: string) {
+          makeObservable(this);
+        }
+      }
+      class KeyedModel {
+        @nested.keyed((row: Row) => row.id) @observable rows = [new Row("a"), new Row("b")];
+
+        constructor() {
+          makeObservable(this);
+        }
+      }
+      const model = new KeyedModel();
+      const form = Form.get(model);
+      const rowForm = Form.get(model.rows[1]);
+      rowForm.validator.updateErrors(Symbol(), (b) => {
+        b.invalidate("field", "invalid");
+      });
+      rowForm.getField("field").reportError();
+
+      runInAction(() => model.rows.reverse());
+      expect(form.subForms.get("rows.b" as KeyPath)).toBe(rowForm);
+      expect(form.getErrors("rows.b.field" as KeyPath)).toEqual(new Set(["invalid"]));
+    });
   });
 
   describe("#canSubmit", () => {
@@ -642,6 +795,21 @@ describe("Form", () => {
       field.reportError();
       expect(form.getErrors("field", true)).toEqual(new Set(["invalid"]));
     });
+
+    it("returns the error messages for a field of a sub-form", () => {
+      const model = new NestedModel();
+      const form = Form.get(model);
+      const arrayForm0 = Form.get(model.array[0]);
+
+      arrayForm0.validator.updateErrors(Symbol(), (b) => {
+        b.invalidate("field", "invalid");
+      });
+
+      const keyPath = KeyPath.of<NestedModel>()("array", 0, "field");
+      expect(form.getErrors(keyPath)).toEqual(new Set());
+      arrayForm0.getField("field").reportError();
+      expect(form.getErrors(keyPath)).toEqual(new Set(["invalid"]));
+    });
   });
 
   describe("#getAllErrors", () => {
@@ -693,6 +861,24 @@ describe("Form", () => {
       });
 
       expect(form.getAllErrors("array")).toEqual(new Set(["invalid at array", "invalid at array.0.field"]));
+      expect(form.getAllErrors(KeyPath.of<NestedModel>()("array", 0, "field"))).toEqual(
+        new Set(["invalid at array.0.field"])
+      );
+    });
+
+    it("returns all error messages matching a key path pattern", () => {
+      const model = new NestedModel();
+      const form = Form.get(model);
+      const arrayForm0 = Form.get(model.array[0]);
+
+      form.validator.updateErrors(Symbol(), (b) => {
+        b.invalidate("array", "invalid at array");
+      });
+      arrayForm0.validator.updateErrors(Symbol(), (b) => {
+        b.invalidate("field", "invalid at array.0.field");
+      });
+
+      expect(form.getAllErrors("array.*.field" as KeyPath)).toEqual(new Set(["invalid at array.0.field"]));
     });
   });
 
@@ -869,4 +1055,121 @@ describe("Sub-forms", () => {
       expect(field3.isErrorReported).toEqual(undefined);
     });
   });
+
+  describe("Navigation", () => {
+    test("sub-forms know their parent, root, and key path from the root", () => {
+      const { model, form, sampleForm, arrayForm0 } = setupEnv();
+
+      expect(form.parent).toBeNull();
+      expect(form.root).toBe(form);
+      expect(form.keyPathFromRoot).toBe(KeyPath.Self);
+      expect(sampleForm.parent).toBe(form);
+      expect(sampleForm.keyPathFromRoot).toBe("sample");
+      expect(arrayForm0.root).toBe(form);
+      expect(arrayForm0.keyPathFromRoot).toBe("array.0");
+
+      runInAction(() => {
+        model.array.unshift(new SampleModel());
+      });
+      expect(arrayForm0.keyPathFromRoot).toBe("array.1");
+    });
+
+    test("a sub-form can observe the submission state of the root form", async () => {
+      const { form, arrayForm0 } = setupEnv();
+      const states: boolean[] = [];
+      autorun(() => {
+        states.push(arrayForm0.root.isSubmitting);
+      });
+
+      form.markAsDirty();
+      await form.submit();
+      expect(states).toEqual([false, true, false]);
+    });
+
+    test("sub-forms know their parent before the parent form reads them", () => {
+      const { model, form } = setupEnv();
+      expect(form.canSubmit).toBe(false);
+      expect(form.isDirty).toBe(false);
+      expect(form.isValid).toBe(true);
+      form.getField("sample");
+
+      const rowForm = Form.get(model.array[0]);
+      expect(rowForm.parent).toBe(form);
+      expect(rowForm.root).toBe(form);
+      expect(rowForm.validator.parent).toBe(form.validator);
+    });
+
+    test("sub-forms are unlinked when the parent form is disposed", () => {
+      const { model, form, sampleForm } = setupEnv();
+
+      form.dispose();
+      expect(sampleForm.parent).toBeNull();
+      expect(Form.get(model.sample).parent).toBeNull();
+    });
+
+    test("a shared sub-form is not disposed while another parent form owns it", () => {
+      const model1 = new NestedModel();
+      const model2 = new NestedModel();
+      runInAction(() => {
+        model2.array.push(model1.sample);
+      });
+      const form1 = Form.get(model1);
+      const form2 = Form.get(model2);
+      const sharedForm = Form.get(model1.sample);
+      expect(sharedForm.parent).toBe(form1);
+
+      form1.dispose();
+      expect(sharedForm.isDisposed).toBe(false);
+      expect(sharedForm.parent).toBe(form2);
+      expect(sharedForm.keyPathFromRoot).toBe("array.1");
+    });
+
+    test("sub-forms of different form keys are linked separately", () => {
+      const { model, form } = setupEnv();
+      const formKey = Symbol();
+      const otherForm = Form.get(model, formKey);
+
+      expect(Form.get(model.sample).parent).toBe(form);
+      expect(Form.get(model.sample, formKey).parent).toBe(otherForm);
+    });
+  });
+
+  describe("Cycles", () => {
+    class Node {
+      @nested @observable next: Node | null = null;
+
+      constructor() {
+        makeObservable(this);
+      }
+    }
+
+    afterEach(() => {
+      vi.unstubAllEnvs();
+    });
+
+    test("a sub-form referring back to an ancestor throws an error when reset", () => {
+      const node = new Node();
+      const form = Form.get(node);
+      runInAction(() => {
+        node.next = new Node();
+        node.next.next = node;
+      });
+
+      expect(() => form.reset()).toThrow('nested: Cycle detected at "next.next"');
+      expect(() => form.reportError()).toThrow('nested: Cycle detected at "next.next"');
+    });
+
+    test("a sub-form referring back to an ancestor is skipped in production", () => {
+      vi.stubEnv("NODE_ENV", "production");
+      const node = new Node();
+      const form = Form.get(node);
+      runInAction(() => {
+        node.next = new Node();
+        node.next.next = node;
+      });
+
+      form.reset();
+      expect(form.isDirty).toBe(false);
+    });
+  });
 });
@@ -1,6 +1,6 @@
 import { action, computed, makeObservable, observable } from "mobx";
 import { v4 as uuidV4 } from "uuid";
-import { Validator, Watcher, StandardNestedFetcher, KeyPath } from "@mobx-sentinel/core";
+import { Validator, Watcher, StandardNestedFetcher, KeyPath, createDisposedWarning } from "@mobx-sentinel/core";
 import { FormField } from "./field";
 import { FormBinding, FormBindingConstructor, FormBindingFunc, getSafeBindingName } from "./binding";
 import { FormConfig, globalConfig } from "./config";
@@ -9,6 +9,22 @@ import { Submission } from "./submission";
 const registry = new WeakMap<object, Map<symbol, Form<any>>>();
 const defaultFormKey = Symbol("form.defaultFormKey");
 const internalToken = Symbol("form.internalToken");
+const warnIfDisposed = createDisposedWarning("Form", "form");
+
+/** Get the form of the subject for the form key unless it does not exist or is disposed */
+const findForm = (subject: object, formKey: symbol): Form<any> | null => {
+  const form = registry.get(subject)?.get(formKey);
+  return form && !form.isDisposed ? form : null;
+};
+
+/** Create a traversal of sub-forms, observing their sub-forms */
+const createTraversal = () => StandardNestedFetcher.createTraversal<Form<any>>((form) => form.subForms);
+
+/** Recursive traversals of sub-forms, to detect cycles */
+const traversals = Object.freeze({
+  reportError: createTraversal(),
+  reset: createTraversal(),
+});
 
 /**
  * Form manages submission, fields, and bindings.
@@ -24,6 +40,7 @@ const internalToken = Symbol("form.internalToken");
 export class Form<T> {
   readonly id = uuidV4();
   readonly #formKey: symbol;
+  readonly #subject: object;
   readonly watcher: Watcher;
   readonly validator: Validator<T>;
   readonly #nestedFetcher: StandardNestedFetcher<Form<any>>;
@@ -31,6 +48,7 @@ export class Form<T> {
   readonly #fields = new Map<string, FormField>();
   readonly #bindings = new Map<string, FormBinding>();
   readonly #localConfig = observable.box<Partial<FormConfig>>({});
+  #isDisposed = false;
 
   /** Extension fields for bindings */
   [k: `bind${Capitalize<string>}`]: unknown;
@@ -77,11 +95,11 @@ export class Form<T> {
 
     let instance = map.get(formKey);
     if (!instance) {
+      // Registered to the map in the constructor
       instance = new this<T>(internalToken, {
         subject,
         formKey,
       });
-      map.set(formKey, instance);
     }
     return instance;
   }
@@ -94,14 +112,17 @@ export class Form<T> {
    * It's only for advanced use cases, such as testing.
    *
    * @see {@link Form.get}
+   * @see {@link Form#dispose}
    */
   static dispose(subject: object, formKey?: symbol) {
     const map = registry.get(subject);
     if (!map) return;
     if (formKey) {
-      map.delete(formKey);
+      map.get(formKey)?.dispose();
     } else {
-      map.clear();
+      for (const form of Array.from(map.values())) {
+        form.dispose();
+      }
     }
   }
 
@@ -116,7 +137,11 @@ export class Form<T> {
       throw new Error("private constructor");
     }
 
+    // Register first, so that nested objects referring back to the subject get this instance
+    registry.get(args.subject)?.set(args.formKey, this);
+
     this.#formKey = args.formKey;
+    this.#subject = args.subject;
     this.watcher = Watcher.get(args.subject);
     this.validator = Validator.get(args.subject);
     this.#nestedFetcher = new StandardNestedFetcher(args.subject, (entry) => Form.getSafe(entry.data, this.#formKey));
@@ -240,13 +265,45 @@ export class Form<T> {
     return this.#nestedFetcher.dataMap;
   }
 
+  /**
+   * The parent form that owns this form as a sub-form, or `null` if this is a root
+   *
+   * @remarks
+   * - Known only while the parent form exists and is not disposed
+   * - Returns the first one if shared by multiple parents, which {@link root} and {@link keyPathFromRoot} follow
+   */
+  get parent(): Form<any> | null {
+    return (
+      StandardNestedFetcher.getParent(this.#subject, (subject) => findForm(subject, this.#formKey))?.parent ?? null
+    );
+  }
+
+  /**
+   * The topmost ancestor form, or this form itself if it has no parent
+   *
+   * Useful to observe the submission state of the whole form from a sub-form.
+   */
+  get root(): Form<any> {
+    return StandardNestedFetcher.getRoot<Form<any>>(this, this.#subject, (subject) => findForm(subject, this.#formKey));
+  }
+
+  /**
+   * The key path of this form from the {@link root} (e.g., `items.0`)
+   *
+   * Useful to map errors reported for the root subject (e.g., by a server) to this form.
+   */
+  get keyPathFromRoot(): KeyPath {
+    return StandardNestedFetcher.getKeyPathFromRoot(this.#subject, (subject) => findForm(subject, this.#formKey));
+  }
+
   /** Report error states on all fields and sub-forms */
   @action
   reportError() {
+    if (warnIfDisposed(this, "reportError")) return;
     for (const field of this.#fields.values()) {
       field.reportError();
     }
-    for (const entry of this.#nestedFetcher) {
+    for (const entry of traversals.reportError.entries(this, this.#nestedFetcher)) {
       entry.data.reportError();
     }
   }
@@ -262,12 +319,13 @@ export class Form<T> {
    */
   @action
   reset() {
+    if (warnIfDisposed(this, "reset")) return;
     // NOTE: DO NOT reset the validator here.
     this.watcher.reset();
     for (const field of this.#fields.values()) {
       field.reset();
     }
-    for (const entry of this.#nestedFetcher) {
+    for (const entry of traversals.reset.entries(this, this.#nestedFetcher)) {
       entry.data.reset();
     }
   }
@@ -297,6 +355,7 @@ export class Form<T> {
    * @returns `true` if submission succeeded, `false` if failed or aborted
    */
   async submit(args?: { force?: boolean }) {
+    if (warnIfDisposed(this, "submit")) return false;
     if (!args?.force && !this.canSubmit) return false;
     return this.#submission.exec();
   }
@@ -323,9 +382,12 @@ export class Form<T> {
   /**
    * Get a field by name
    *
-   * @remarks Fields are cached and reused.
+   * @remarks
+   * - Fields are cached and reused.
+   * - After the form is disposed, new fields are returned disposed and not cached.
    */
   getField(fieldName: FormField.Name<T>) {
+    const isDisposed = warnIfDisposed(this, "getField");
     let field = this.#fields.get(fieldName);
     if (!field) {
       field = new FormField({
@@ -333,11 +395,53 @@ export class Form<T> {
         validator: this.validator,
         getFinalizationDelayMs: () => this.config.autoFinalizationDelayMs,
       });
+      if (isDisposed) {
+        field.dispose(); // Not cached, same as the fields disposed along with the form
+        return field;
+      }
       this.#fields.set(fieldName, field);
     }
     return field;
   }
 
+  /** Whether the form has been disposed */
+  get isDisposed() {
+    return this.#isDisposed;
+  }
+
+  /**
+   * Release all resources of the form
+   *
+   * @remarks
+   * - Disposes the fields and aborts the in-progress submission
+   * - Removes all submission handlers and bindings
+   * - Disposes the sub-forms and unlinks them from this form (see {@link parent}),\
+   *   except the ones shared with other parents
+   * - Removes the form from the cache, so {@link Form.get} creates a new instance afterwards
+   * - Does not dispose the watcher and the validator, as they are shared with other forms of the subject.\
+   *   Call {@link Watcher#dispose} and {@link Validator#dispose} separately if needed.
+   * - Calling this method more than once has no effect
+   */
+  dispose() {
+    if (this.#isDisposed) return;
+    this.#isDisposed = true;
+
+    const map = registry.get(this.#subject);
+    if (map?.get(this.#formKey) === this) {
+      map.delete(this.#formKey);
+    }
+
+    this.#submission.dispose();
+    for (const field of this.#fields.values()) {
+      field.dispose();
+    }
+    this.#bindings.clear();
+    for (const entry of this.#nestedFetcher) {
+      if (entry.data.parent) continue; // Still owned by another parent
+      entry.data.dispose();
+    }
+  }
+
   /** Define a binding by key */
   #defineBinding(bindingKey: string, create: () => FormBinding) {
     let binding = this.#bindings.get(bindingKey);
@@ -412,13 +516,28 @@ export class Form<T> {
   /**
    * Get error messages for a field
    *
-   * @param fieldName Field to get errors for
+   * @param fieldName Field to get errors for.\
+   *   Key paths into sub-forms such as `array.0.field` are also accepted (see {@link KeyPath.of}).
    * @param includePreReported Whether to include errors not yet reported
    *
    * @returns Set of error messages
    */
-  getErrors(fieldName: FormField.Name<T>, includePreReported = false): ReadonlySet<string> {
-    const field = this.getField(fieldName);
+  getErrors(fieldName: FormField.Name<T> | KeyPath, includePreReported = false): ReadonlySet<string> {
+    const keyPath = typeof fieldName === "string" ? this.#toDeepKeyPath(fieldName) : null;
+    if (keyPath) {
+      for (const entry of this.#nestedFetcher) {
+        if (KeyPath.isSelf(entry.keyPath)) continue;
+        const relativeKeyPath = KeyPath.getRelative(keyPath, entry.keyPath);
+        if (!relativeKeyPath || KeyPath.isSelf(relativeKeyPath)) continue;
+        const components = KeyPath.split(relativeKeyPath);
+        return entry.data.getErrors(
+          (components.length === 1 ? KeyPath.decodeKey(components[0]) : relativeKeyPath) as FormField.Name<any>,
+          includePreReported
+        );
+      }
+    }
+
+    const field = this.getField(fieldName as FormField.Name<T>);
 
     if (!includePreReported && !field.isErrorReported) {
       return new Set();
@@ -432,12 +551,31 @@ export class Form<T> {
   /**
    * Get all error messages for the form
    *
-   * @param fieldName Field to get errors for. If omitted, all errors are returned.
+   * @param fieldName Field to get errors for. If omitted, all errors are returned.\
+   *   Key paths such as `array.0.field` and patterns such as `items.*.price` are also accepted
+   *   (see {@link KeyPath.of} and {@link KeyPath.match}).
    *
    * @returns Set of error messages
    */
-  getAllErrors(fieldName?: FormField.Name<T>) {
-    return this.validator.getErrorMessages(fieldName ? KeyPath.build(fieldName) : KeyPath.Self, true);
+  getAllErrors(fieldName?: FormField.Name<T> | KeyPath) {
+    if (!fieldName || KeyPath.isSelf(fieldName as KeyPath)) {
+      return this.validator.getErrorMessages(KeyPath.Self, true);
+    }
+    const keyPath = KeyPath.isPattern(fieldName as KeyPath)
+      ? (fieldName as KeyPath)
+      : (this.#toDeepKeyPath(fieldName as string) ?? KeyPath.encodeKey(fieldName));
+    return this.validator.getErrorMessages(keyPath, true);
+  }
+
+  /**
+   * Interpret the field name as a key path into nested objects
+   *
+   * @returns The key path, or `null` if the name refers to a property of the subject itself
+   */
+  #toDeepKeyPath(fieldName: string): KeyPath | null {
+    if (fieldName in this.#subject) return null;
+    const keyPath = fieldName as KeyPath;
+    return KeyPath.split(keyPath).length > 1 ? keyPath : null;
   }
 
   /**
@@ -35,6 +35,17 @@ export class Submission {
     return (): void => void this.#handlers[event].delete(handler);
   }
 
+  /**
+   * Abort the in-progress submission and remove all handlers
+   */
+  dispose() {
+    this.#abortCtrl?.abort();
+    this.#abortCtrl = null;
+    for (const handlers of Object.values(this.#handlers)) {
+      handlers.clear();
+    }
+  }
+
   /**
    * Execute the submission process
    *